@@ -5,6 +5,26 @@ import tailwindcss from '@tailwindcss/vite';
 import react from '@astrojs/react';
 import sitemap from '@astrojs/sitemap';
 import netlify from '@astrojs/netlify';
+import { validateNarrativePacks } from './src/utils/narrativeTemplates.ts';
+
+/**
+ * Fail dev and build when a narrative template pack (src/i18n/{lang}/narrative.json)
+ * is missing a key or placeholder
+ * @returns {import('astro').AstroIntegration}
+ */
+function narrativePacks() {
+  return {
+    name: 'narrative-packs',
+    hooks: {
+      'astro:config:setup': () => {
+        const problems = validateNarrativePacks();
+        if (problems.length > 0) {
+          throw new Error(`Invalid narrative template packs:\n  ${problems.join('\n  ')}`);
+        }
+      }
+    }
+  };
+}
 
 export default defineConfig({
   site: 'https://tarotfree.netlify.app',
@@ -16,5 +36,5 @@ export default defineConfig({
   build: {
     format: 'directory'
   },
-  integrations: [react(), sitemap()]
+  integrations: [react(), sitemap(), narrativePacks()]
 });
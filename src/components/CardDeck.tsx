@@ -1,5 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { shuffleDeck, isReversed } from '../utils/rng';
+import { shuffleDeck } from '../utils/rng';
+import {
+  shouldReverse,
+  isChallengePosition,
+  DEFAULT_REVERSAL_POLICY,
+  type ReversalPolicy,
+} from '../utils/reversalPolicy';
 import cardsData from '../data/cards.json';
 import SpreadLayout from './SpreadLayout';
 import type { TarotSpread } from '../types/tarot';
@@ -8,15 +14,23 @@ interface CardDeckProps {
   cardCount: number;
   spread: TarotSpread;
   onCardsSelected: (selectedCards: SelectedCard[]) => void;
+  reversalPolicy?: ReversalPolicy;
 }
 
 export interface SelectedCard {
   cardId: number;
   reversed: boolean;
   position: number;
+  /** Extra card pulled to clarify this position (see utils/clarifier.ts) */
+  clarifier?: { cardId: number; reversed: boolean };
 }
 
-export default function CardDeck({ cardCount, spread, onCardsSelected }: CardDeckProps) {
+export default function CardDeck({
+  cardCount,
+  spread,
+  onCardsSelected,
+  reversalPolicy = DEFAULT_REVERSAL_POLICY,
+}: CardDeckProps) {
   const [deck, setDeck] = useState<number[]>([]);
   const [selectedCards, setSelectedCards] = useState<SelectedCard[]>([]);
   const [isShuffling, setIsShuffling] = useState(false);
@@ -49,7 +63,10 @@ export default function CardDeck({ cardCount, spread, onCardsSelected }: CardDec
     }
 
     const cardId = deck[index];
-    const reversed = isReversed();
+    const reversed = shouldReverse(reversalPolicy, {
+      isMajor: cardsData[cardId].arcana === 'major',
+      isChallengePosition: isChallengePosition(spread.id, selectedCards.length),
+    });
 
     const newCard: SelectedCard = {
       cardId,
@@ -1,6 +1,7 @@
 import React from 'react';
 import CardDeck from './CardDeck';
 import type { TarotSpread } from '../types/tarot';
+import { buildResultPath } from '../utils/readingCodec';
 
 interface CardDeckWrapperProps {
   cardCount: number;
@@ -10,16 +11,15 @@ interface CardDeckWrapperProps {
 
 export default function CardDeckWrapper({ cardCount, spreadId, spread }: CardDeckWrapperProps) {
   const handleCardsSelected = (selectedCards: any[]) => {
-    // Encode selected cards in URL path and navigate to result page
-    // Format: /result/3-card/1-2-3/010
-    const cardIds = selectedCards.map(sc => sc.cardId).join('-');
-    const reversed = selectedCards.map(sc => sc.reversed ? '1' : '0').join('');
+    // Encode selected cards in the URL path and navigate to result page
+    // Format: /result/{token} (see readingCodec.ts)
+    const cards = selectedCards.map(sc => ({ cardId: sc.cardId, reversed: sc.reversed }));
 
     // Preserve language parameter from current URL
     const currentUrl = new URL(window.location.href);
     const lang = currentUrl.searchParams.get('lang');
 
-    let url = `/result/${spreadId}/${cardIds}/${reversed}`;
+    let url = buildResultPath({ spreadId, cards });
     if (lang) {
       url += `?lang=${lang}`;
     }
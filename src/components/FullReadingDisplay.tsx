@@ -3,17 +3,26 @@
  * Synthesised reading with improved visual hierarchy and structure.
  */
 
-import { useState, useEffect } from 'react';
-import type { FullReadingAnalysis } from '../types/reading';
+import { useState, useMemo } from 'react';
 import type { DrawnCard, TarotSpread } from '../types/tarot';
+import type { SupportedLanguage } from '../types/i18n';
 import { analyzeReading } from '../utils/readingAnalyzer';
 import MysteryVoiceButton from './MysteryVoiceButton';
 import { i18n } from '../utils/i18n';
+import type { DeckPool } from '../utils/deckPool';
+import { PLANET_SYMBOLS, ZODIAC_SYMBOLS } from '../utils/correspondences';
+import type { ReadingMode } from '../utils/yesNo';
 
 interface FullReadingDisplayProps {
   cards: DrawnCard[];
   spread: TarotSpread;
   question?: string;
+  /** The pool the cards were drawn from (defaults to the full deck) */
+  pool?: DeckPool;
+  /** Reading language — set it so the server render matches the page */
+  lang?: SupportedLanguage;
+  /** 'yesno' answers the question instead of the usual synthesis */
+  mode?: ReadingMode;
 }
 
 // ── Energy badge config ───────────────────────────────────────────────────────
@@ -32,23 +41,25 @@ const INTERACTION_CONFIG = {
   neutral:       { bg: 'bg-gray-100',    text: 'text-gray-700',    border: 'border-l-gray-300',    label: 'Neutral',       labelVi: 'Trung Lập'  },
 } as const;
 
-// ── Loading skeleton ──────────────────────────────────────────────────────────
-function LoadingSkeleton() {
-  return (
-    <div className="space-y-5 p-8 bg-gradient-to-br from-violet-50 to-purple-50 rounded-2xl shadow-2xl animate-pulse">
-      <div className="h-10 bg-violet-200/50 rounded-lg w-2/3 mx-auto" />
-      <div className="h-5 bg-violet-100/50 rounded w-1/2 mx-auto" />
-      <div className="grid grid-cols-3 gap-3 mt-6">
-        {[1,2,3].map(i => <div key={i} className="h-16 bg-violet-100/50 rounded-xl" />)}
-      </div>
-      <div className="space-y-3 mt-4">
-        {[1,2,3,4].map(i => (
-          <div key={i} className="h-4 bg-violet-100/40 rounded" style={{ width: `${100 - i * 8}%` }} />
-        ))}
-      </div>
-    </div>
-  );
-}
+const ELEMENT_ICONS = { fire: '🔥', water: '💧', air: '💨', earth: '🌱' } as const;
+
+const DIGNITY_CONFIG = {
+  strengthen: { label: 'Strengthening',    labelVi: 'Tương trợ',  text: 'text-emerald-700' },
+  weaken:     { label: 'Weakening',        labelVi: 'Suy yếu',    text: 'text-amber-700'   },
+  neutral:    { label: 'Neutral elements', labelVi: 'Trung lập',  text: 'text-gray-500'    },
+} as const;
+
+const YES_NO_CONFIG = {
+  yes:   { label: 'Yes',   labelVi: 'Có',      icon: '✅', bg: 'bg-emerald-50', border: 'border-emerald-300', text: 'text-emerald-700', bar: 'bg-emerald-500', chip: 'bg-emerald-100 text-emerald-800' },
+  no:    { label: 'No',    labelVi: 'Không',   icon: '⛔', bg: 'bg-rose-50',    border: 'border-rose-300',    text: 'text-rose-700',    bar: 'bg-rose-500',    chip: 'bg-rose-100 text-rose-800'       },
+  maybe: { label: 'Maybe', labelVi: 'Chưa rõ', icon: '❔', bg: 'bg-amber-50',   border: 'border-amber-300',   text: 'text-amber-700',   bar: 'bg-amber-500',   chip: 'bg-amber-100 text-amber-800'     },
+} as const;
+
+const COURT_ROLE_CONFIG = {
+  person: { label: 'Another person', labelVi: 'Người khác',              icon: '👤' },
+  self:   { label: 'Aspect of self', labelVi: 'Khía cạnh bản thân',      icon: '🪞' },
+  either: { label: 'Person or self', labelVi: 'Người khác hay bản thân', icon: '🎭' },
+} as const;
 
 // ── Card thumbnail ────────────────────────────────────────────────────────────
 function CardThumb({ dc, size = 'sm' }: { dc: DrawnCard; size?: 'sm' | 'md' }) {
@@ -81,26 +92,19 @@ function InlineBold({ text }: { text: string }) {
 export default function FullReadingDisplay({
   cards,
   spread,
-  question = ''
+  question = '',
+  pool,
+  lang = i18n.getCurrentLanguage(),
+  mode
 }: FullReadingDisplayProps) {
-  const [analysis, setAnalysis] = useState<FullReadingAnalysis | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
   const [interactionsOpen, setInteractionsOpen] = useState(false);
-
-  const lang = i18n.getCurrentLanguage();
   const isVi = lang === 'vi';
 
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      const result = analyzeReading(cards, spread, question);
-      setAnalysis(result);
-      setIsLoading(false);
-    }, 1500);
-    return () => clearTimeout(timer);
-  }, [cards, spread, question]);
-
-  if (isLoading) return <LoadingSkeleton />;
-  if (!analysis) return null;
+  // Synchronous and deterministic, so the server render and hydration agree
+  const analysis = useMemo(
+    () => analyzeReading(cards, spread, question, { pool, lang, mode }),
+    [cards, spread, question, pool, lang, mode]
+  );
 
   const energy = ENERGY_CONFIG[analysis.theme.overallEnergy];
 
@@ -195,10 +199,44 @@ export default function FullReadingDisplay({
           {/* ── Divider ── */}
           <div className="border-t border-violet-200/60" />
 
+          {/* ── Yes/No answer ── */}
+          {analysis.yesNo && (
+            <section className={`rounded-xl border-2 p-5 text-center ${YES_NO_CONFIG[analysis.yesNo.answer].bg} ${YES_NO_CONFIG[analysis.yesNo.answer].border}`}>
+              <p className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-1">
+                {isVi ? 'Câu Trả Lời' : 'The Answer'}
+              </p>
+              <p className={`text-4xl font-heading ${YES_NO_CONFIG[analysis.yesNo.answer].text}`}>
+                {YES_NO_CONFIG[analysis.yesNo.answer].icon}{' '}
+                {isVi ? YES_NO_CONFIG[analysis.yesNo.answer].labelVi : YES_NO_CONFIG[analysis.yesNo.answer].label}
+              </p>
+              <div className="mt-3 max-w-xs mx-auto">
+                <div className="h-2 rounded-full bg-white/80 overflow-hidden">
+                  <div
+                    className={`h-full ${YES_NO_CONFIG[analysis.yesNo.answer].bar}`}
+                    style={{ width: `${Math.round(analysis.yesNo.confidence * 100)}%` }}
+                  />
+                </div>
+                <p className="text-[11px] text-gray-500 mt-1">
+                  {isVi
+                    ? `Độ tin cậy ${Math.round(analysis.yesNo.confidence * 100)}%`
+                    : `${Math.round(analysis.yesNo.confidence * 100)}% confidence`}
+                </p>
+              </div>
+              <div className="flex flex-wrap justify-center gap-1.5 mt-3">
+                {analysis.yesNo.votes.map(({ drawnCard, polarity }) => (
+                  <span key={drawnCard.card.id} className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${YES_NO_CONFIG[polarity].chip}`}>
+                    {drawnCard.card.name}{drawnCard.reversed && ` (${isVi ? 'ngược' : 'reversed'})`}:{' '}
+                    {isVi ? YES_NO_CONFIG[polarity].labelVi : YES_NO_CONFIG[polarity].label}
+                  </span>
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* ── Opening (most prominent) ── */}
           <section>
             <p className="text-lg md:text-xl leading-relaxed text-gray-800 italic font-medium">
-              {analysis.synthesis.opening}
+              <InlineBold text={analysis.synthesis.opening} />
             </p>
           </section>
 
@@ -231,6 +269,13 @@ export default function FullReadingDisplay({
                               ↑ {isVi ? 'Ngược' : 'Reversed'}
                             </span>
                           )}
+                          {beat.court && (
+                            <span className="text-[10px] text-violet-medium font-medium">
+                              {COURT_ROLE_CONFIG[beat.court.role].icon}{' '}
+                              {isVi ? COURT_ROLE_CONFIG[beat.court.role].labelVi : COURT_ROLE_CONFIG[beat.court.role].label}
+                              {' · '}{ELEMENT_ICONS[beat.court.subElement]}{ELEMENT_ICONS[beat.court.element]}
+                            </span>
+                          )}
                         </div>
                         <p className="text-sm md:text-base leading-relaxed text-gray-700">
                           <InlineBold text={beat.narrative} />
@@ -274,6 +319,55 @@ export default function FullReadingDisplay({
             </details>
           )}
 
+          {/* ── Numerology ── */}
+          {analysis.synthesis.numerology && (
+            <section className="bg-white/70 border border-violet-200/60 rounded-xl p-4">
+              <h4 className="text-xs font-bold text-violet-deep mb-2 uppercase tracking-widest flex items-center gap-1">
+                🔢 {isVi ? 'Thần Số Học' : 'Numerology'}
+              </h4>
+              <div className="flex flex-wrap gap-1.5 mb-3">
+                {analysis.numerology.repeatedRanks.map(({ number, cards }) => (
+                  <span key={`rank-${number}`} className="px-2 py-0.5 rounded-full text-[11px] font-medium bg-violet-100 text-violet-800">
+                    {number} × {cards.length}
+                  </span>
+                ))}
+                {analysis.numerology.sequences.map(({ arcana, numbers }) => (
+                  <span key={`${arcana}-${numbers[0]}`} className="px-2 py-0.5 rounded-full text-[11px] font-medium bg-sky-100 text-sky-800">
+                    {numbers.join('–')}
+                  </span>
+                ))}
+                {analysis.numerology.quintessence && (
+                  <span className="px-2 py-0.5 rounded-full text-[11px] font-medium bg-amber-100 text-amber-800">
+                    Σ {analysis.numerology.quintessence.total} → {analysis.numerology.quintessence.number}
+                  </span>
+                )}
+              </div>
+              <p className="text-sm leading-relaxed text-gray-700">{analysis.synthesis.numerology}</p>
+            </section>
+          )}
+
+          {/* ── Astrology ── */}
+          {analysis.synthesis.astrology && (
+            <section className="bg-white/70 border border-violet-200/60 rounded-xl p-4">
+              <h4 className="text-xs font-bold text-violet-deep mb-2 uppercase tracking-widest flex items-center gap-1">
+                🪐 {isVi ? 'Chiêm Tinh' : 'Astrology'}
+              </h4>
+              <div className="flex flex-wrap gap-1.5 mb-3">
+                {analysis.correspondences.planets.map(({ planet, cards }) => (
+                  <span key={planet} className="px-2 py-0.5 rounded-full text-[11px] font-medium bg-indigo-100 text-indigo-800">
+                    {PLANET_SYMBOLS[planet]} × {cards.length}
+                  </span>
+                ))}
+                {analysis.correspondences.signs.map(({ sign, cards }) => (
+                  <span key={sign} className="px-2 py-0.5 rounded-full text-[11px] font-medium bg-sky-100 text-sky-800">
+                    {ZODIAC_SYMBOLS[sign]} × {cards.length}
+                  </span>
+                ))}
+              </div>
+              <p className="text-sm leading-relaxed text-gray-700">{analysis.synthesis.astrology}</p>
+            </section>
+          )}
+
           {/* ── With You / Watch For (2-col with thumbnails) ── */}
           {(analysis.supportingCards.length > 0 || analysis.challengingCards.length > 0) && (
             <section className="grid md:grid-cols-2 gap-4">
@@ -336,33 +430,38 @@ export default function FullReadingDisplay({
                     {analysis.interactions.length}
                   </span>
                 </span>
-                <span className={`text-violet-medium text-lg transition-transform duration-200 ${interactionsOpen ? 'rotate-180' : ''}`}>
+                <span className={`text-violet-medium text-lg transition-transform duration-200 print:hidden ${interactionsOpen ? 'rotate-180' : ''}`}>
                   ▾
                 </span>
               </button>
 
-              {interactionsOpen && (
-                <div className="px-5 pb-5 space-y-3 border-t border-violet-200/60 pt-4">
-                  {analysis.interactions.slice(0, 4).map((interaction, index) => {
-                    const cfg = INTERACTION_CONFIG[interaction.relationshipType];
-                    return (
-                      <div key={index} className={`rounded-lg p-4 border-l-4 bg-white/80 ${cfg.border}`}>
-                        <div className="flex items-center gap-2 mb-2 flex-wrap">
-                          <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide ${cfg.bg} ${cfg.text}`}>
-                            {isVi ? cfg.labelVi : cfg.label}
+              {/* Always rendered so printing shows it even when collapsed */}
+              <div className={`px-5 pb-5 space-y-3 border-t border-violet-200/60 pt-4 ${interactionsOpen ? '' : 'hidden print:block'}`}>
+                {analysis.interactions.slice(0, 4).map((interaction, index) => {
+                  const cfg = INTERACTION_CONFIG[interaction.relationshipType];
+                  return (
+                    <div key={index} className={`rounded-lg p-4 border-l-4 bg-white/80 ${cfg.border}`}>
+                      <div className="flex items-center gap-2 mb-2 flex-wrap">
+                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide ${cfg.bg} ${cfg.text}`}>
+                          {isVi ? cfg.labelVi : cfg.label}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          <span className="font-semibold text-gray-700">{interaction.card1.name}</span>
+                          <span className="mx-1 text-gray-400">↔</span>
+                          <span className="font-semibold text-gray-700">{interaction.card2.name}</span>
+                        </span>
+                        {interaction.dignity && (
+                          <span className={`text-[11px] font-medium ${DIGNITY_CONFIG[interaction.dignity.effect].text}`}>
+                            {ELEMENT_ICONS[interaction.dignity.element1]} {ELEMENT_ICONS[interaction.dignity.element2]}{' '}
+                            {isVi ? DIGNITY_CONFIG[interaction.dignity.effect].labelVi : DIGNITY_CONFIG[interaction.dignity.effect].label}
                           </span>
-                          <span className="text-xs text-gray-500">
-                            <span className="font-semibold text-gray-700">{interaction.card1.name}</span>
-                            <span className="mx-1 text-gray-400">↔</span>
-                            <span className="font-semibold text-gray-700">{interaction.card2.name}</span>
-                          </span>
-                        </div>
-                        <p className="text-sm text-gray-700 leading-relaxed">{interaction.interpretation}</p>
+                        )}
                       </div>
-                    );
-                  })}
-                </div>
-              )}
+                      <p className="text-sm text-gray-700 leading-relaxed">{interaction.interpretation}</p>
+                    </div>
+                  );
+                })}
+              </div>
             </section>
           )}
 
@@ -442,7 +541,7 @@ export default function FullReadingDisplay({
       </div>
 
       {/* TTS floating button */}
-      <MysteryVoiceButton analysis={analysis} />
+      <MysteryVoiceButton analysis={analysis} lang={lang} />
     </div>
   );
 }
@@ -0,0 +1,562 @@
+/**
+ * Journal View Component
+ * Lists saved readings with filters, and lets the reader add reflections,
+ * tags, a mood rating and answer "how did this turn out?" follow-ups.
+ */
+
+import { useState, useEffect } from 'react';
+import type { Reading } from '../utils/storage';
+import {
+  getJournal,
+  filterReadings,
+  collectTags,
+  isFollowUpDue,
+  normalizeTags,
+  type JournalFilter,
+  type ReadingAnnotations,
+} from '../utils/journal';
+import {
+  exportJournalJson,
+  exportJournalCsv,
+  exportJournalMarkdown,
+  parseJournalImport,
+  mergeImportedReadings,
+} from '../utils/journalTransfer';
+import { downloadFile } from '../utils/download';
+import { i18n } from '../utils/i18n';
+
+interface JournalViewProps {
+  /** Localized card names and images, indexed by card ID */
+  cards: Array<{ name: string; image: string }>;
+  /** Localized spread names by spread ID */
+  spreadNames: Record<string, string>;
+  /** Start with only due follow-ups shown (from ?due=1) */
+  initialFollowUpDue?: boolean;
+}
+
+const MOODS = ['😞', '😕', '😐', '🙂', '😄'];
+
+// ── Rating row (mood or accuracy) ─────────────────────────────────────────────
+function RatingButtons({
+  value,
+  onChange,
+  symbols,
+  label,
+}: {
+  value?: number;
+  onChange: (value: number) => void;
+  symbols: string[];
+  label: string;
+}) {
+  return (
+    <div className="flex gap-1" role="group" aria-label={label}>
+      {symbols.map((symbol, i) => (
+        <button
+          key={i}
+          type="button"
+          onClick={() => onChange(i + 1)}
+          aria-pressed={value === i + 1}
+          className={`w-9 h-9 rounded-full text-lg transition-all ${
+            value === i + 1 ? 'bg-violet-deep/10 ring-2 ring-violet-deep scale-110' : 'opacity-60 hover:opacity-100'
+          }`}
+        >
+          {symbol}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function JournalView({ cards, spreadNames, initialFollowUpDue = false }: JournalViewProps) {
+  const [readings, setReadings] = useState<Reading[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<JournalFilter>({ followUpDue: initialFollowUpDue });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ notes: string; tags: string; mood?: number }>({ notes: '', tags: '' });
+  const [followUpNotes, setFollowUpNotes] = useState<Record<string, string>>({});
+  const [importMessage, setImportMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  // Last storage failure, shown until dismissed or the next action succeeds
+  const [error, setError] = useState<string | null>(null);
+
+  const lang = i18n.getCurrentLanguage();
+
+  const labels = lang === 'vi'
+    ? {
+        loading: 'Đang mở nhật ký…',
+        empty: 'Chưa có lượt xem bài nào. Hoàn thành một lượt rút bài để bắt đầu nhật ký.',
+        noMatches: 'Không có lượt xem bài nào khớp bộ lọc.',
+        searchPlaceholder: 'Tìm trong câu hỏi, ghi chú, thẻ…',
+        allTags: 'Mọi thẻ',
+        anyMood: 'Mọi tâm trạng',
+        dueOnly: 'Cần phản hồi',
+        dueBanner: (count: number) => `${count} lượt xem bài đang chờ bạn cho biết kết quả ra sao.`,
+        noQuestion: 'Không có câu hỏi',
+        openReading: 'Mở lại',
+        edit: 'Ghi chú',
+        delete: 'Xoá',
+        confirmDelete: 'Xoá lượt xem bài này khỏi nhật ký?',
+        notesLabel: 'Suy ngẫm',
+        notesPlaceholder: 'Lượt xem bài này gợi lên điều gì cho bạn?',
+        tagsLabel: 'Thẻ (phân cách bằng dấu phẩy)',
+        moodLabel: 'Tâm trạng',
+        save: 'Lưu',
+        cancel: 'Huỷ',
+        followUpQuestion: 'Mọi chuyện đã diễn ra thế nào?',
+        followUpHint: 'Nhìn lại, lượt xem bài này chính xác đến đâu?',
+        followUpNotePlaceholder: 'Điều gì đã thực sự xảy ra? (tuỳ chọn)',
+        accuracyLabel: 'Độ chính xác',
+        followUpScheduled: (date: string) => `Hỏi lại vào ${date}`,
+        reversed: 'ngược',
+        exportLabel: 'Xuất',
+        importBtn: 'Nhập từ tệp',
+        journalTitle: 'Nhật Ký Tarot',
+        importDone: (added: number, merged: number) => `Đã nhập: ${added} lượt mới, ${merged} lượt được gộp.`,
+        importSkipped: (skipped: number) => ` Bỏ qua ${skipped} mục không hợp lệ.`,
+        importDroppedCards: (count: number) => ` Bỏ ${count} lá không còn trong bộ bài.`,
+        importUnknownSpreads: (count: number) => ` ${count} lượt dùng trải bài không còn tồn tại.`,
+        importErrors: {
+          json: 'Tệp này không phải JSON hợp lệ.',
+          format: 'Tệp này không phải bản xuất nhật ký tarot.',
+          version: 'Tệp này được xuất từ phiên bản mới hơn của trang.',
+        },
+        importFailed: 'Không thể thêm các lượt xem bài trong tệp này vào nhật ký.',
+        loadFailed: 'Không mở được nhật ký. Trình duyệt có thể đang chặn bộ nhớ của trang này.',
+        saveFailed: 'Không lưu được thay đổi. Vui lòng thử lại.',
+        deleteFailed: 'Không xoá được lượt xem bài này. Vui lòng thử lại.',
+        dismiss: 'Đóng',
+      }
+    : {
+        loading: 'Opening your journal…',
+        empty: 'No readings yet. Finish a draw to start your journal.',
+        noMatches: 'No readings match these filters.',
+        searchPlaceholder: 'Search questions, notes, tags…',
+        allTags: 'All tags',
+        anyMood: 'Any mood',
+        dueOnly: 'Follow-ups due',
+        dueBanner: (count: number) => `${count} ${count === 1 ? 'reading is' : 'readings are'} waiting to hear how things turned out.`,
+        noQuestion: 'No question',
+        openReading: 'Open',
+        edit: 'Reflect',
+        delete: 'Delete',
+        confirmDelete: 'Delete this reading from your journal?',
+        notesLabel: 'Reflection',
+        notesPlaceholder: 'What did this reading bring up for you?',
+        tagsLabel: 'Tags (comma separated)',
+        moodLabel: 'Mood',
+        save: 'Save',
+        cancel: 'Cancel',
+        followUpQuestion: 'How did this turn out?',
+        followUpHint: 'Looking back, how accurate did this reading feel?',
+        followUpNotePlaceholder: 'What actually happened? (optional)',
+        accuracyLabel: 'Accuracy',
+        followUpScheduled: (date: string) => `Check-in on ${date}`,
+        reversed: 'reversed',
+        exportLabel: 'Export',
+        importBtn: 'Import file',
+        journalTitle: 'Tarot Journal',
+        importDone: (added: number, merged: number) => `Imported ${added} new ${added === 1 ? 'reading' : 'readings'} and merged ${merged}.`,
+        importSkipped: (skipped: number) => ` Skipped ${skipped} invalid ${skipped === 1 ? 'entry' : 'entries'}.`,
+        importDroppedCards: (count: number) => ` Dropped ${count} ${count === 1 ? 'card' : 'cards'} no longer in the deck.`,
+        importUnknownSpreads: (count: number) => ` ${count} ${count === 1 ? 'reading uses a spread' : 'readings use spreads'} that no longer exist.`,
+        importErrors: {
+          json: 'This file is not valid JSON.',
+          format: 'This file is not a tarot journal export.',
+          version: 'This file was exported by a newer version of the site.',
+        },
+        importFailed: "The readings in this file couldn't be added to your journal.",
+        loadFailed: "Your journal couldn't be opened. Your browser may be blocking storage for this site.",
+        saveFailed: "Your changes couldn't be saved. Please try again.",
+        deleteFailed: "This reading couldn't be deleted. Please try again.",
+        dismiss: 'Dismiss',
+      };
+
+  const dateFormat = new Intl.DateTimeFormat(lang === 'vi' ? 'vi-VN' : 'en-GB', { dateStyle: 'medium' });
+
+  useEffect(() => {
+    getJournal()
+      .then(journal => journal.list())
+      .then(setReadings)
+      .catch(error => {
+        console.error('Error loading journal:', error);
+        setError(labels.loadFailed);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // ── Persist changes and keep the list in step ────────────────────────────
+  // Returns false (and shows the error) if the change couldn't be stored
+  const applyUpdate = async (id: string, changes: ReadingAnnotations): Promise<boolean> => {
+    try {
+      const journal = await getJournal();
+      const updated = await journal.update(id, changes);
+      if (updated) setReadings(prev => prev.map(r => (r.id === id ? updated : r)));
+      setError(null);
+      return true;
+    } catch (error) {
+      console.error('Error updating reading:', error);
+      setError(labels.saveFailed);
+      return false;
+    }
+  };
+
+  const startEditing = (reading: Reading) => {
+    setEditingId(reading.id);
+    setDraft({ notes: reading.notes ?? '', tags: (reading.tags ?? []).join(', '), mood: reading.mood });
+  };
+
+  const saveEditing = async (id: string) => {
+    // Keep the editor open on failure so the draft isn't lost
+    if (await applyUpdate(id, { notes: draft.notes.trim(), tags: normalizeTags(draft.tags), mood: draft.mood })) {
+      setEditingId(null);
+    }
+  };
+
+  const answerFollowUp = (reading: Reading, accuracy: number) => {
+    const note = followUpNotes[reading.id]?.trim();
+    applyUpdate(reading.id, {
+      followUp: {
+        dueAt: reading.followUp?.dueAt ?? Date.now(),
+        accuracy,
+        answeredAt: Date.now(),
+        ...(note ? { note } : {}),
+      },
+    });
+  };
+
+  // ── Export / import ─────────────────────────────────────────────────────────
+  const exportAs = (kind: 'json' | 'csv' | 'md') => {
+    const names = { cardNames: cards.map(c => c.name), spreadNames };
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (kind === 'json') downloadFile(exportJournalJson(readings), `tarot-journal-${stamp}.json`, 'application/json');
+    if (kind === 'csv') downloadFile(exportJournalCsv(readings, names), `tarot-journal-${stamp}.csv`, 'text/csv');
+    if (kind === 'md') downloadFile(exportJournalMarkdown(readings, names, labels.journalTitle), `tarot-journal-${stamp}.md`, 'text/markdown');
+  };
+
+  const importFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setImportMessage({ ok: false, text: labels.importFailed });
+      return;
+    }
+    const parsed = parseJournalImport(text);
+    if (!parsed.ok) {
+      setImportMessage({ ok: false, text: labels.importErrors[parsed.reason] });
+      return;
+    }
+
+    let added: number;
+    let merged: number;
+    try {
+      const journal = await getJournal();
+      const result = mergeImportedReadings(await journal.list(), parsed.readings);
+      for (const reading of result.toSave) await journal.save(reading);
+      setReadings(await journal.list());
+      ({ added, merged } = result);
+    } catch (error) {
+      console.error('Error importing readings:', error);
+      setImportMessage({ ok: false, text: labels.importFailed });
+      return;
+    }
+
+    let message = labels.importDone(added, merged);
+    if (parsed.skipped) message += labels.importSkipped(parsed.skipped);
+    if (parsed.droppedCards) message += labels.importDroppedCards(parsed.droppedCards);
+    if (parsed.unknownSpreads) message += labels.importUnknownSpreads(parsed.unknownSpreads);
+    setImportMessage({ ok: true, text: message });
+  };
+
+  const removeReading = async (id: string) => {
+    if (!window.confirm(labels.confirmDelete)) return;
+    try {
+      const journal = await getJournal();
+      await journal.remove(id);
+      setReadings(prev => prev.filter(r => r.id !== id));
+      setError(null);
+    } catch (error) {
+      console.error('Error deleting reading:', error);
+      setError(labels.deleteFailed);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-center text-violet-medium animate-pulse py-12">{labels.loading}</p>;
+  }
+
+  const errorBanner = error && (
+    <div role="alert" className="flex items-start justify-between gap-3 mb-4 rounded-lg bg-red-50 border-l-4 border-red-500 px-4 py-3 text-sm text-red-700">
+      <span>⚠️ {error}</span>
+      <button type="button" onClick={() => setError(null)} className="text-xs underline flex-shrink-0">
+        {labels.dismiss}
+      </button>
+    </div>
+  );
+
+  const transferBar = (
+    <div className="flex flex-wrap items-center justify-end gap-2 mb-4 text-xs">
+      {readings.length > 0 && (
+        <>
+          <span className="text-gray-500">{labels.exportLabel}:</span>
+          {(['json', 'csv', 'md'] as const).map(kind => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => exportAs(kind)}
+              className="px-3 py-1 rounded-full border border-violet-200 text-violet-medium hover:border-violet-deep uppercase"
+            >
+              {kind}
+            </button>
+          ))}
+        </>
+      )}
+      <label className="px-3 py-1 rounded-full bg-violet-deep text-white hover:bg-violet-medium cursor-pointer">
+        📥 {labels.importBtn}
+        <input
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {importMessage && (
+        <p className={`w-full text-right ${importMessage.ok ? 'text-emerald-700' : 'text-red-600'}`}>
+          {importMessage.text}
+        </p>
+      )}
+    </div>
+  );
+
+  if (readings.length === 0) {
+    return (
+      <div className="max-w-3xl mx-auto">
+        {errorBanner}
+        {transferBar}
+        {!error && <p className="text-center text-gray-500 py-12">{labels.empty}</p>}
+      </div>
+    );
+  }
+
+  const tags = collectTags(readings);
+  const dueCount = readings.filter(r => isFollowUpDue(r)).length;
+  const visible = filterReadings(readings, filter);
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      {errorBanner}
+      {transferBar}
+
+      {/* Follow-up banner */}
+      {dueCount > 0 && !filter.followUpDue && (
+        <button
+          type="button"
+          onClick={() => setFilter(f => ({ ...f, followUpDue: true }))}
+          className="w-full mb-6 text-left bg-gradient-to-r from-gold-soft/20 to-violet-100 border border-gold-soft/50 rounded-xl px-5 py-3 text-sm text-violet-deep hover:shadow-md transition-shadow"
+        >
+          🔔 {labels.dueBanner(dueCount)}
+        </button>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-3 mb-6">
+        <input
+          type="search"
+          value={filter.text ?? ''}
+          onChange={(e) => setFilter(f => ({ ...f, text: e.target.value }))}
+          placeholder={labels.searchPlaceholder}
+          className="flex-1 min-w-[200px] rounded-lg border-2 border-violet-200 focus:border-violet-deep focus:outline-none px-3 py-2 text-sm"
+        />
+        <select
+          value={filter.tag ?? ''}
+          onChange={(e) => setFilter(f => ({ ...f, tag: e.target.value || undefined }))}
+          className="rounded-lg border-2 border-violet-200 px-3 py-2 text-sm bg-white"
+        >
+          <option value="">{labels.allTags}</option>
+          {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+        </select>
+        <select
+          value={filter.mood ?? ''}
+          onChange={(e) => setFilter(f => ({ ...f, mood: e.target.value ? Number(e.target.value) : undefined }))}
+          className="rounded-lg border-2 border-violet-200 px-3 py-2 text-sm bg-white"
+        >
+          <option value="">{labels.anyMood}</option>
+          {MOODS.map((mood, i) => <option key={i} value={i + 1}>{mood}</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-violet-deep">
+          <input
+            type="checkbox"
+            checked={!!filter.followUpDue}
+            onChange={(e) => setFilter(f => ({ ...f, followUpDue: e.target.checked }))}
+            className="accent-violet-deep"
+          />
+          {labels.dueOnly}
+        </label>
+      </div>
+
+      {visible.length === 0 && (
+        <p className="text-center text-gray-500 py-8">{labels.noMatches}</p>
+      )}
+
+      {/* Entries */}
+      <div className="space-y-5">
+        {visible.map(reading => (
+          <article key={reading.id} className="bg-white rounded-lg shadow-lg p-5">
+            {/* Header */}
+            <div className="flex items-start justify-between gap-3 mb-3">
+              <div className="min-w-0">
+                <p className="text-xs text-gray-400">
+                  {dateFormat.format(reading.timestamp)} · {spreadNames[reading.spreadId] ?? reading.spreadId}
+                  {reading.mood && <span className="ml-2">{MOODS[reading.mood - 1]}</span>}
+                </p>
+                <p className={`font-heading text-lg ${reading.question ? 'text-violet-deep' : 'text-gray-400 italic'}`}>
+                  {reading.question ? `"${reading.question}"` : labels.noQuestion}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0 text-xs">
+                {reading.url && (
+                  <a href={reading.url} className="px-3 py-1.5 rounded-full bg-violet-deep text-white hover:bg-violet-medium transition-colors">
+                    {labels.openReading}
+                  </a>
+                )}
+                <button
+                  type="button"
+                  onClick={() => (editingId === reading.id ? setEditingId(null) : startEditing(reading))}
+                  className="px-3 py-1.5 rounded-full border-2 border-violet-200 text-violet-medium hover:border-violet-deep transition-colors"
+                >
+                  ✍️ {labels.edit}
+                </button>
+              </div>
+            </div>
+
+            {/* Cards */}
+            <div className="flex flex-wrap gap-2 mb-3">
+              {reading.cards.map((c, i) => {
+                const card = cards[c.cardId];
+                if (!card) return null;
+                return (
+                  <div key={i} className="w-12 text-center" title={`${card.name}${c.reversed ? ` (${labels.reversed})` : ''}`}>
+                    <div className={`w-12 h-[72px] rounded overflow-hidden shadow ${c.reversed ? 'rotate-180' : ''}`}>
+                      <img src={card.image} alt={card.name} className="w-full h-full object-cover" loading="lazy" />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Tags and notes */}
+            {reading.tags && reading.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mb-2">
+                {reading.tags.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => setFilter(f => ({ ...f, tag }))}
+                    className="text-xs px-2 py-0.5 rounded-full bg-violet-100 text-violet-deep hover:bg-violet-200"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+            {reading.notes && editingId !== reading.id && (
+              <p className="text-sm text-gray-700 whitespace-pre-line border-l-4 border-violet-200 pl-3">{reading.notes}</p>
+            )}
+
+            {/* Editor */}
+            {editingId === reading.id && (
+              <div className="mt-3 space-y-3 border-t pt-3">
+                <label className="block">
+                  <span className="text-xs font-semibold text-violet-deep">{labels.notesLabel}</span>
+                  <textarea
+                    value={draft.notes}
+                    onChange={(e) => setDraft(d => ({ ...d, notes: e.target.value }))}
+                    rows={4}
+                    placeholder={labels.notesPlaceholder}
+                    className="mt-1 w-full rounded-lg border-2 border-violet-200 focus:border-violet-deep focus:outline-none px-3 py-2 text-sm"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs font-semibold text-violet-deep">{labels.tagsLabel}</span>
+                  <input
+                    value={draft.tags}
+                    onChange={(e) => setDraft(d => ({ ...d, tags: e.target.value }))}
+                    className="mt-1 w-full rounded-lg border-2 border-violet-200 focus:border-violet-deep focus:outline-none px-3 py-2 text-sm"
+                  />
+                </label>
+                <div>
+                  <span className="text-xs font-semibold text-violet-deep">{labels.moodLabel}</span>
+                  <RatingButtons
+                    value={draft.mood}
+                    onChange={(mood) => setDraft(d => ({ ...d, mood }))}
+                    symbols={MOODS}
+                    label={labels.moodLabel}
+                  />
+                </div>
+                <div className="flex justify-between">
+                  <button
+                    type="button"
+                    onClick={() => removeReading(reading.id)}
+                    className="text-xs text-red-600 hover:underline"
+                  >
+                    {labels.delete}
+                  </button>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="px-4 py-1.5 text-sm rounded-lg border-2 border-violet-200 text-violet-medium"
+                    >
+                      {labels.cancel}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => saveEditing(reading.id)}
+                      className="px-4 py-1.5 text-sm rounded-lg bg-violet-deep text-white hover:bg-violet-medium transition-colors"
+                    >
+                      {labels.save}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Follow-up */}
+            {isFollowUpDue(reading) && (
+              <div className="mt-4 rounded-lg bg-amber-50 border-l-4 border-gold-soft px-4 py-3">
+                <p className="text-sm font-semibold text-amber-700">🔔 {labels.followUpQuestion}</p>
+                <p className="text-xs text-gray-500 mb-2">{labels.followUpHint}</p>
+                <input
+                  value={followUpNotes[reading.id] ?? ''}
+                  onChange={(e) => setFollowUpNotes(n => ({ ...n, [reading.id]: e.target.value }))}
+                  placeholder={labels.followUpNotePlaceholder}
+                  className="w-full mb-2 rounded-lg border border-amber-200 px-3 py-1.5 text-sm bg-white"
+                />
+                <RatingButtons
+                  onChange={(accuracy) => answerFollowUp(reading, accuracy)}
+                  symbols={['1★', '2★', '3★', '4★', '5★']}
+                  label={labels.accuracyLabel}
+                />
+              </div>
+            )}
+            {reading.followUp?.accuracy !== undefined && (
+              <p className="mt-3 text-xs text-gray-500">
+                {labels.accuracyLabel}: <span className="text-gold-soft">{'★'.repeat(reading.followUp.accuracy)}{'☆'.repeat(5 - reading.followUp.accuracy)}</span>
+                {reading.followUp.note && <span className="italic"> — {reading.followUp.note}</span>}
+              </p>
+            )}
+            {reading.followUp && reading.followUp.accuracy === undefined && !isFollowUpDue(reading) && (
+              <p className="mt-3 text-[11px] text-gray-400">
+                🔔 {labels.followUpScheduled(dateFormat.format(reading.followUp.dueAt))}
+              </p>
+            )}
+          </article>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -7,22 +7,26 @@ import { useState, useEffect } from 'react';
 import type { FullReadingAnalysis } from '../types/reading';
 import { getTTSManager, checkSpeechSynthesisSupport } from '../utils/textToSpeech';
 import { i18n } from '../utils/i18n';
+import type { SupportedLanguage } from '../types/i18n';
 
 interface MysteryVoiceButtonProps {
   analysis: FullReadingAnalysis;
   className?: string;
+  /** Narration language (defaults to the page language) */
+  lang?: SupportedLanguage;
 }
 
 export default function MysteryVoiceButton({
   analysis,
-  className = ''
+  className = '',
+  lang
 }: MysteryVoiceButtonProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSupported, setIsSupported] = useState(true);
   const [hasVoice, setHasVoice] = useState(true);
-  const language = i18n.getCurrentLanguage();
+  const language = lang ?? i18n.getCurrentLanguage();
 
   useEffect(() => {
     // Check browser support
@@ -0,0 +1,80 @@
+/**
+ * Reading Text Actions Component
+ * "Copy as text" and "Download .md" buttons for the result page, so a reading
+ * can be pasted into a journal or note app.
+ */
+
+import { useState } from 'react';
+import type { DrawnCard, TarotSpread } from '../types/tarot';
+import type { DeckPool } from '../utils/deckPool';
+import type { ReadingMode } from '../utils/yesNo';
+import { analyzeReading } from '../utils/readingAnalyzer';
+import { formatReadingMarkdown, formatReadingPlainText, type ReadingTextOptions } from '../utils/readingText';
+import { downloadFile } from '../utils/download';
+import { i18n } from '../utils/i18n';
+import type { SupportedLanguage } from '../types/i18n';
+
+interface ReadingTextActionsProps {
+  cards: DrawnCard[];
+  spread: TarotSpread;
+  question?: string;
+  /** The pool the cards were drawn from (defaults to the full deck) */
+  pool?: DeckPool;
+  /** Reading language (defaults to the page language) */
+  lang?: SupportedLanguage;
+  /** 'yesno' exports the yes/no answer instead of the usual synthesis */
+  mode?: ReadingMode;
+}
+
+export default function ReadingTextActions({
+  cards,
+  spread,
+  question = '',
+  pool,
+  lang = i18n.getCurrentLanguage(),
+  mode
+}: ReadingTextActionsProps) {
+  const [copied, setCopied] = useState(false);
+
+  const labels = lang === 'vi'
+    ? { copy: 'Sao chép văn bản', copied: 'Đã sao chép!', download: 'Tải .md' }
+    : { copy: 'Copy as text', copied: 'Copied!', download: 'Download .md' };
+
+  // Same analysis FullReadingDisplay shows (the analyzer is deterministic)
+  const render = (format: typeof formatReadingMarkdown) => {
+    const analysis = analyzeReading(cards, spread, question, { pool, lang, mode });
+    const options: ReadingTextOptions = { question, lang, url: window.location.href };
+    return format(analysis, cards, spread, options);
+  };
+
+  const copyText = () => {
+    navigator.clipboard.writeText(render(formatReadingPlainText)).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  const downloadMarkdown = () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadFile(render(formatReadingMarkdown), `tarot-reading-${stamp}.md`, 'text/markdown');
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={copyText}
+        className="px-6 py-3 bg-white border-2 border-gold-soft text-violet-deep rounded-lg hover:bg-gold-soft hover:text-white transition-all"
+      >
+        {copied ? `✅ ${labels.copied}` : `📋 ${labels.copy}`}
+      </button>
+      <button
+        type="button"
+        onClick={downloadMarkdown}
+        className="px-6 py-3 bg-white border-2 border-violet-medium text-violet-medium rounded-lg hover:bg-violet-medium hover:text-white transition-all"
+      >
+        📝 {labels.download}
+      </button>
+    </>
+  );
+}
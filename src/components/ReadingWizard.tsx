@@ -9,7 +9,44 @@ import React, { useState, useEffect } from 'react';
 import SpreadLayout from './SpreadLayout';
 import type { TarotSpread } from '../types/tarot';
 import type { SelectedCard } from './CardDeck';
-import { shuffleDeck, isReversed } from '../utils/rng';
+import { formatSeed, generateSeed, parseSeed } from '../utils/rng';
+import {
+  formatReversalPolicy,
+  hasChallengePositions,
+  DEFAULT_REVERSAL_POLICY,
+  type ReversalPolicy,
+  type ReversalMode,
+} from '../utils/reversalPolicy';
+import {
+  getPoolCardIds,
+  formatDeckPool,
+  DEFAULT_DECK_POOL,
+  SUITS,
+  type DeckPool,
+  type DeckPoolMode,
+  type Suit,
+} from '../utils/deckPool';
+import {
+  indexAtNumber,
+  formatShuffleRitual,
+  DEFAULT_SHUFFLE_RITUAL,
+  MAX_RITUAL_PASSES,
+  type ShuffleRitual,
+  type ShuffleRitualMode,
+} from '../utils/deckRitual';
+import { isYesNoQuestion, supportsYesNo, formatReadingMode } from '../utils/yesNo';
+import { getJournal, readingFromResultUrl, scheduleFollowUp } from '../utils/journal';
+import { buildResultPath } from '../utils/readingCodec';
+import { formatDrawProof } from '../utils/drawProof';
+import {
+  getRemainingReadings,
+  startReading,
+  reshuffleSeed,
+  signDealtReading,
+  type DealRequest,
+} from '../utils/storage';
+import type { QuotaStatus } from '../utils/readingQuota';
+import { startDeal, cutDeal, dealtCard, type Deal, type DealSeed } from '../utils/deal';
 import { i18n } from '../utils/i18n';
 import cardsData from '../data/cards.json';
 
@@ -17,17 +54,41 @@ interface ReadingWizardProps {
   cardCount: number;
   spreadId: string;
   spread: TarotSpread;
+  /** Replay a previous draw: the first deal uses this seed instead of a fresh one */
+  seed?: number;
+  /** Pre-selected reversal policy (e.g. from ?rev= when replaying) */
+  reversalPolicy?: ReversalPolicy;
+  /** Pre-selected deck pool (e.g. from ?pool= when replaying) */
+  pool?: DeckPool;
+  /** Pre-selected shuffle ritual (e.g. from ?ritual= when replaying) */
+  ritual?: ShuffleRitual;
+  /** Reading quota checked during SSR (fetched on mount if missing) */
+  quota?: QuotaStatus;
 }
 
 type WizardStep = 'intention' | 'draw';
 
-export default function ReadingWizard({ cardCount, spreadId, spread }: ReadingWizardProps) {
+export default function ReadingWizard({ cardCount, spreadId, spread, seed: initialSeed, reversalPolicy: initialPolicy, pool: initialPool, ritual: initialRitual, quota: initialQuota }: ReadingWizardProps) {
   const [step, setStep] = useState<WizardStep>('intention');
   const [question, setQuestion] = useState('');
+  // Only offered (and only applied) while the question looks like a yes/no one
+  const [yesNoMode, setYesNoMode] = useState(false);
+  const [reversalPolicy, setReversalPolicy] = useState<ReversalPolicy>(initialPolicy ?? DEFAULT_REVERSAL_POLICY);
+  const [deckPool, setDeckPool] = useState<DeckPool>(initialPool ?? DEFAULT_DECK_POOL);
+  const [ritual, setRitual] = useState<ShuffleRitual>(initialRitual ?? DEFAULT_SHUFFLE_RITUAL);
+  // The deck, dealt here from a seed the server handed out (see deal.ts)
+  const [deal, setDeal] = useState<Deal | null>(null);
+  // Cut ritual: the order the reader has tapped the piles in so far
+  const [pileOrder, setPileOrder] = useState<number[]>([]);
+  const [pickNumber, setPickNumber] = useState('');
+  const [quota, setQuota] = useState<QuotaStatus | null>(initialQuota ?? null);
+  const [isStarting, setIsStarting] = useState(false);
   const [selectedCards, setSelectedCards] = useState<SelectedCard[]>([]);
-  const [deck, setDeck] = useState<number[]>([]);
+  // Deck positions turned over so far
+  const [pickedIndexes, setPickedIndexes] = useState<number[]>([]);
   const [isShuffling, setIsShuffling] = useState(false);
   const [isNavigating, setIsNavigating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const lang = i18n.getCurrentLanguage();
 
@@ -39,6 +100,8 @@ export default function ReadingWizard({ cardCount, spreadId, spread }: ReadingWi
         questionLabel: 'Câu Hỏi Của Bạn (tuỳ chọn)',
         questionHint: 'Tập trung tâm trí. Bạn đang tìm kiếm hướng dẫn về điều gì?',
         questionPlaceholder: 'Bạn cần lời khuyên gì?',
+        yesNoLabel: 'Trả lời Có / Không',
+        yesNoHint: 'Câu hỏi của bạn có thể trả lời bằng có hoặc không. Bật chế độ này để nhận câu trả lời trực tiếp kèm độ tin cậy.',
         shuffleBtn: 'Xáo Bài & Bắt Đầu',
         backBtn: '← Chọn bài khác',
         yourQuestion: 'Câu hỏi của bạn',
@@ -47,6 +110,53 @@ export default function ReadingWizard({ cardCount, spreadId, spread }: ReadingWi
         shufflingText: 'Đang xáo bài...',
         navigatingText: 'Đã rút đủ bài! Đang chuyển đến kết quả…',
         progress: 'Tiến độ',
+        reversalsLabel: 'Lá Bài Ngược',
+        reversalsHint: 'Chọn cách các lá bài ngược có thể xuất hiện trong bài xem này.',
+        reversalModes: {
+          probability: 'Ngẫu nhiên',
+          upright: 'Chỉ lá xuôi',
+          majors: 'Chỉ Bài Lớn',
+          challenge: 'Chỉ vị trí thách thức',
+        } as Record<ReversalMode, string>,
+        reversalChance: (percent: number) => `${percent}% khả năng lá bài bị ngược`,
+        deckLabel: 'Bộ Bài',
+        deckHint: 'Rút từ cả bộ bài hoặc từ một nhóm lá nhỏ hơn.',
+        deckModes: {
+          full: 'Cả bộ (78)',
+          majors: 'Bài Lớn (22)',
+          suit: 'Một bộ',
+          custom: 'Tự chọn',
+        } as Record<DeckPoolMode, string>,
+        suitNames: {
+          wands: 'Bộ Gậy',
+          cups: 'Bộ Chén',
+          swords: 'Bộ Kiếm',
+          pentacles: 'Bộ Xu',
+        } as Record<Suit, string>,
+        customCount: (selected: number, min: number) => `Đã chọn ${selected} lá — cần ít nhất ${min} lá`,
+        ritualLabel: 'Cách Xáo Bài',
+        ritualHint: 'Chuẩn bị bộ bài theo cách bạn vẫn làm với bộ bài thật.',
+        ritualModes: {
+          quick: 'Xáo nhanh',
+          riffle: 'Xáo bắc cầu',
+          overhand: 'Xáo tay',
+          cut: 'Chia ba xấp',
+          pick: 'Chọn theo số',
+        } as Record<ShuffleRitualMode, string>,
+        ritualPasses: (times: number) => `Xáo ${times} lần`,
+        cutHeading: 'Chọn thứ tự xếp lại ba xấp bài',
+        cutHint: 'Chạm vào từng xấp theo thứ tự bạn muốn đặt chúng từ trên xuống.',
+        pileLabel: (index: number) => `Xấp ${index}`,
+        pileCards: (count: number) => `${count} lá`,
+        pickHint: (max: number) => `Chọn một số từ 1 đến ${max}`,
+        pickBtn: 'Rút lá này',
+        quotaLeft: (remaining: number, limit: number) => `Còn ${remaining}/${limit} lượt xem bài hôm nay`,
+        quotaResets: (hours: number) => `, làm mới sau ${hours} giờ`,
+        quotaReached: (hours: number) => `Bạn đã dùng hết lượt xem bài. Hãy quay lại sau ${hours} giờ — những lá bài sẽ rõ ràng hơn khi bạn có thời gian suy ngẫm.`,
+        commitmentLabel: 'Dấu vân tay bộ bài',
+        commitmentHint: 'Thứ tự bộ bài đã được khoá lại trước khi bạn chọn. Trang kết quả sẽ tiết lộ thứ tự này để bạn tự kiểm chứng.',
+        quotaUnavailable: 'Không kiểm tra được số lượt xem bài còn lại.',
+        dealFailed: 'Không thể chia bài lúc này. Hãy kiểm tra kết nối và thử lại.',
       }
     : {
         step1Badge: 'Step 1 — Set Your Intention',
@@ -55,6 +165,8 @@ export default function ReadingWizard({ cardCount, spreadId, spread }: ReadingWi
         questionLabel: 'Your Question (optional)',
         questionHint: 'Focus your mind. What are you seeking guidance on?',
         questionPlaceholder: 'What guidance do you seek?',
+        yesNoLabel: 'Answer with Yes / No',
+        yesNoHint: 'Your question can be answered with yes or no. Turn this on for a direct answer with a confidence score.',
         shuffleBtn: 'Shuffle the Deck & Begin',
         backBtn: '← Choose a different spread',
         yourQuestion: 'Your question',
@@ -63,57 +175,234 @@ export default function ReadingWizard({ cardCount, spreadId, spread }: ReadingWi
         shufflingText: 'Shuffling...',
         navigatingText: 'All cards drawn! Taking you to your reading…',
         progress: 'Progress',
+        reversalsLabel: 'Reversed Cards',
+        reversalsHint: 'Choose how reversed cards may appear in this reading.',
+        reversalModes: {
+          probability: 'Random',
+          upright: 'Upright only',
+          majors: 'Major Arcana only',
+          challenge: 'Challenge positions only',
+        } as Record<ReversalMode, string>,
+        reversalChance: (percent: number) => `${percent}% chance of a reversal`,
+        deckLabel: 'Deck',
+        deckHint: 'Draw from the full deck or a smaller pool of cards.',
+        deckModes: {
+          full: 'Full deck (78)',
+          majors: 'Major Arcana (22)',
+          suit: 'Single suit',
+          custom: 'Custom pool',
+        } as Record<DeckPoolMode, string>,
+        suitNames: {
+          wands: 'Wands',
+          cups: 'Cups',
+          swords: 'Swords',
+          pentacles: 'Pentacles',
+        } as Record<Suit, string>,
+        customCount: (selected: number, min: number) => `${selected} cards selected — pick at least ${min}`,
+        ritualLabel: 'Shuffle Style',
+        ritualHint: 'Prepare the deck the way you would with a physical deck.',
+        ritualModes: {
+          quick: 'Quick shuffle',
+          riffle: 'Riffle',
+          overhand: 'Overhand',
+          cut: 'Cut into three',
+          pick: 'Pick by number',
+        } as Record<ShuffleRitualMode, string>,
+        ritualPasses: (times: number) => `Shuffle ${times} ${times === 1 ? 'time' : 'times'}`,
+        cutHeading: 'Choose how to restack the three piles',
+        cutHint: 'Tap the piles in the order you want them, from top to bottom.',
+        pileLabel: (index: number) => `Pile ${index}`,
+        pileCards: (count: number) => `${count} cards`,
+        pickHint: (max: number) => `Choose a number from 1 to ${max}`,
+        pickBtn: 'Draw this card',
+        quotaLeft: (remaining: number, limit: number) => `${remaining} of ${limit} readings left`,
+        quotaResets: (hours: number) => `, resets in ${hours} ${hours === 1 ? 'hour' : 'hours'}`,
+        quotaReached: (hours: number) => `You've used all your readings for now. Come back in ${hours} ${hours === 1 ? 'hour' : 'hours'} — the cards speak more clearly with time to reflect.`,
+        commitmentLabel: 'Deck fingerprint',
+        commitmentHint: 'The deck order is locked in before you pick. Your result reveals it so you can check this fingerprint yourself.',
+        quotaUnavailable: "Couldn't check how many readings you have left.",
+        dealFailed: "The cards couldn't be dealt right now. Check your connection and try again.",
       };
 
-  // ── Shuffle deck ──────────────────────────────────────────────────────────
-  const doShuffle = () => {
+  const dealRequest = (): DealRequest => ({
+    spreadId,
+    pool: formatDeckPool(deckPool),
+    rev: formatReversalPolicy(reversalPolicy),
+    ritual: formatShuffleRitual(ritual),
+  });
+
+  // ── Shuffle from a seed once the shuffle animation has played ───────────
+  const showDeal = (next: Promise<DealSeed | null>) => {
     setIsShuffling(true);
     setSelectedCards([]);
-    const cardIds = Array.from({ length: 78 }, (_, i) => i);
-    const shuffled = shuffleDeck(cardIds);
-    setTimeout(() => {
-      setDeck(shuffled);
-      setIsShuffling(false);
-    }, 2000);
+    setPickedIndexes([]);
+    setPileOrder([]);
+    setError(null);
+    const dealt = next.then(seeded => {
+      if (!seeded) return null;
+      const seed = parseSeed(seeded.seed);
+      if (seed === null) throw new Error(`Unexpected seed: ${seeded.seed}`);
+      return startDeal({ spreadId, poolIds: getPoolCardIds(deckPool), policy: reversalPolicy, ritual }, seed, seeded.ticket);
+    });
+    const animation = new Promise(resolve => setTimeout(resolve, 2000));
+    return Promise.all([dealt, animation])
+      .then(([shuffled]) => { if (shuffled) setDeal(shuffled); })
+      .catch(error => {
+        console.error('Error dealing cards:', error);
+        setError(labels.dealFailed);
+      })
+      .finally(() => setIsShuffling(false));
+  };
+
+  // A ticketed seed is swapped on the server, so the new deck can still be signed
+  const shuffleAgain = () => {
+    if (!deal) return;
+    showDeal(deal.ticket
+      ? reshuffleSeed({ ...dealRequest(), seed: formatSeed(deal.seed), ticket: deal.ticket })
+      : Promise.resolve({ seed: formatSeed(generateSeed()) }));
   };
 
-  // When entering step 2, trigger the initial shuffle
-  const startDraw = () => {
+  // ── Cut ritual: restack once every pile has been tapped ──────────────────
+  const choosePile = (index: number) => {
+    if (!deal?.piles || pileOrder.includes(index)) return;
+    const order = [...pileOrder, index];
+    setPileOrder(order);
+    if (order.length < deal.piles.length) return;
+    cutDeal(deal, order)
+      .then(setDeal)
+      .finally(() => setPileOrder([]));
+  };
+
+  // ── Pick-by-number ritual ─────────────────────────────────────────────────
+  const pickByNumber = () => {
+    if (!deal) return;
+    const index = indexAtNumber(deal.order.length, pickedIndexes, parseInt(pickNumber, 10));
+    if (index === null) return;
+    setPickNumber('');
+    selectCard(index);
+  };
+
+  // Show the quota before the reader commits to a reading
+  useEffect(() => {
+    if (initialQuota) return;
+    getRemainingReadings().then(setQuota).catch(error => {
+      console.error('Error checking reading limit:', error);
+      setError(labels.quotaUnavailable);
+    });
+  }, []);
+
+  // When entering step 2, get a seed — the server uses one reading from the quota
+  const startDraw = async () => {
+    setIsStarting(true);
+    setError(null);
+    const started = startReading({
+      ...dealRequest(),
+      seed: initialSeed !== undefined ? formatSeed(initialSeed) : undefined,
+      lang,
+    });
+    try {
+      const { quota: status } = await started;
+      setQuota(status);
+      if (!status.allowed) return;
+    } catch (error) {
+      console.error('Error starting a reading:', error);
+      setError(labels.dealFailed);
+      return;
+    } finally {
+      setIsStarting(false);
+    }
     setStep('draw');
-    doShuffle();
+    showDeal(started.then(({ dealt }) => dealt));
   };
 
   // ── Draw a card ───────────────────────────────────────────────────────────
   const selectCard = (index: number) => {
-    if (selectedCards.length >= cardCount || isNavigating) return;
+    if (!deal || selectedCards.length >= cardCount || isNavigating || pickedIndexes.includes(index)) return;
 
-    const cardId = deck[index];
-    const reversed = isReversed();
-    const newCard: SelectedCard = { cardId, reversed, position: selectedCards.length + 1 };
-    const newSelection = [...selectedCards, newCard];
+    const position = selectedCards.length + 1;
+    const newSelection = [...selectedCards, { ...dealtCard(deal, index, position - 1), position }];
+    const picks = [...pickedIndexes, index];
     setSelectedCards(newSelection);
+    setPickedIndexes(picks);
+    if (newSelection.length === cardCount) showReading(newSelection, deal, picks);
+  };
 
-    if (newSelection.length === cardCount) {
-      setIsNavigating(true);
-      const cardIds = newSelection.map(sc => sc.cardId).join('-');
-      const reversedStr = newSelection.map(sc => sc.reversed ? '1' : '0').join('');
-      const currentUrl = new URL(window.location.href);
-      const langParam = currentUrl.searchParams.get('lang');
-      let url = `/result/${spreadId}/${cardIds}/${reversedStr}`;
-      const qs = new URLSearchParams();
-      if (question.trim()) qs.set('question', question.trim());
-      if (langParam) qs.set('lang', langParam);
-      const qsStr = qs.toString();
-      if (qsStr) url += `?${qsStr}`;
-      setTimeout(() => { window.location.href = url; }, 800);
+  // ── Every card is down: go to the result ─────────────────────────────────
+  const showReading = (cards: SelectedCard[], dealt: Deal, picks: number[]) => {
+    setIsNavigating(true);
+    const currentUrl = new URL(window.location.href);
+    const langParam = currentUrl.searchParams.get('lang');
+    const path = buildResultPath({
+      spreadId,
+      cards: cards.map(sc => ({ cardId: sc.cardId, reversed: sc.reversed })),
+      seed: dealt.seed,
+      question: question.trim() || undefined,
+    });
+    const qs = new URLSearchParams();
+    const poolParam = formatDeckPool(deckPool);
+    if (poolParam) qs.set('pool', poolParam);
+    const revParam = formatReversalPolicy(reversalPolicy);
+    if (revParam) qs.set('rev', revParam);
+    const ritualParam = formatShuffleRitual(ritual);
+    if (ritualParam) qs.set('ritual', ritualParam);
+    const modeParam = formatReadingMode(offerYesNo && yesNoMode ? 'yesno' : 'reading');
+    if (modeParam) qs.set('mode', modeParam);
+    if (dealt.commitment) {
+      qs.set('commit', dealt.commitment);
+      qs.set('proof', formatDrawProof({ ...dealt, picks }));
     }
+    if (langParam) qs.set('lang', langParam);
+
+    // A ticketed seed's reading is signed by the server; without the
+    // signature the link just opens unverified
+    const signed = dealt.ticket
+      ? signDealtReading(`${path}?${qs}`, dealt.ticket)
+          .then(sig => { qs.set('sig', sig); })
+          .catch(error => { console.error('Error signing the reading:', error); })
+      : Promise.resolve();
+
+    // Save to the journal while the last card settles, then go to the result
+    const saved = signed.then(() => {
+      const url = `${path}?${qs}`;
+      const reading = readingFromResultUrl(url);
+      if (!reading) return url;
+      return getJournal().then(journal => journal.save({
+        ...reading,
+        lang,
+        followUp: scheduleFollowUp(reading.timestamp),
+      })).catch(error => {
+        console.error('Error saving reading:', error);
+      }).then(() => url);
+    });
+    const settled = new Promise(resolve => setTimeout(resolve, 800));
+    Promise.all([saved, settled]).then(([url]) => { window.location.href = url; });
   };
 
   const drawnCount = selectedCards.length;
   // 1-based active position for SpreadLayout highlight
   const activePosition = drawnCount < cardCount ? drawnCount + 1 : undefined;
   const nextPosition = spread.positions[drawnCount];
-  const canDraw = drawnCount < cardCount && !isNavigating && !isShuffling;
+  const piles = deal?.piles ?? null;
+  const deckSize = deal?.order.length ?? 0;
+  const canDraw = deal !== null && drawnCount < cardCount && !isNavigating && !isShuffling && !piles;
+  const remainingInDeck = deckSize - drawnCount;
+  const poolSize = getPoolCardIds(deckPool).length;
+  const poolTooSmall = poolSize < cardCount;
+  const offerYesNo = supportsYesNo(cardCount) && isYesNoQuestion(question);
+
+  const selectPoolMode = (mode: DeckPoolMode) => {
+    if (mode === 'suit') setDeckPool({ mode: 'suit', suit: 'wands' });
+    else if (mode === 'custom') setDeckPool({ mode: 'custom', cardIds: [] });
+    else setDeckPool({ mode });
+  };
+
+  const toggleCustomCard = (cardId: number) => {
+    if (deckPool.mode !== 'custom') return;
+    const cardIds = deckPool.cardIds.includes(cardId)
+      ? deckPool.cardIds.filter(id => id !== cardId)
+      : [...deckPool.cardIds, cardId];
+    setDeckPool({ mode: 'custom', cardIds });
+  };
 
   // ── STEP 1: Intention ─────────────────────────────────────────────────────
   if (step === 'intention') {
@@ -169,18 +458,217 @@ export default function ReadingWizard({ cardCount, spreadId, spread }: ReadingWi
             placeholder={labels.questionPlaceholder}
             className="w-full rounded-lg border-2 border-violet-200 focus:border-violet-deep focus:outline-none px-4 py-3 text-sm text-gray-800 resize-none transition-colors"
           />
+          {offerYesNo && (
+            <div className="mt-3 flex items-start gap-3 bg-violet-50 border border-violet-200 rounded-lg px-4 py-3">
+              <button
+                type="button"
+                onClick={() => setYesNoMode(!yesNoMode)}
+                aria-pressed={yesNoMode}
+                className={`flex-shrink-0 px-4 py-1.5 rounded-full text-sm transition-colors ${
+                  yesNoMode
+                    ? 'bg-violet-deep text-white'
+                    : 'bg-white border-2 border-violet-200 text-violet-medium hover:border-violet-deep'
+                }`}
+              >
+                ✔ {labels.yesNoLabel}
+              </button>
+              <p className="text-xs text-gray-500">{labels.yesNoHint}</p>
+            </div>
+          )}
         </div>
 
+        {/* Reversal policy */}
+        <div className="mb-8">
+          <p className="block text-sm font-semibold text-violet-deep mb-1">
+            🔃 {labels.reversalsLabel}
+          </p>
+          <p className="text-xs text-gray-500 mb-3">{labels.reversalsHint}</p>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(labels.reversalModes) as ReversalMode[])
+              // Challenge mode would leave every card upright in a spread without challenge positions
+              .filter(mode => mode !== 'challenge' || hasChallengePositions(spreadId) || reversalPolicy.mode === mode)
+              .map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setReversalPolicy(
+                    mode === 'probability' ? DEFAULT_REVERSAL_POLICY : { mode }
+                  )}
+                  aria-pressed={reversalPolicy.mode === mode}
+                  className={`px-4 py-1.5 rounded-full text-sm transition-colors ${
+                    reversalPolicy.mode === mode
+                      ? 'bg-violet-deep text-white'
+                      : 'bg-white border-2 border-violet-200 text-violet-medium hover:border-violet-deep'
+                  }`}
+                >
+                  {labels.reversalModes[mode]}
+                </button>
+              ))}
+          </div>
+          {reversalPolicy.mode === 'probability' && (
+            <div className="flex items-center gap-3 mt-3">
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={reversalPolicy.percent}
+                onChange={(e) => setReversalPolicy({ mode: 'probability', percent: Number(e.target.value) })}
+                className="flex-1 accent-violet-deep"
+                aria-label={labels.reversalsLabel}
+              />
+              <span className="text-xs text-gray-600 w-44 text-right">
+                {labels.reversalChance(reversalPolicy.percent)}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Deck pool */}
+        <div className="mb-8">
+          <p className="block text-sm font-semibold text-violet-deep mb-1">
+            🂠 {labels.deckLabel}
+          </p>
+          <p className="text-xs text-gray-500 mb-3">{labels.deckHint}</p>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(labels.deckModes) as DeckPoolMode[]).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => selectPoolMode(mode)}
+                aria-pressed={deckPool.mode === mode}
+                className={`px-4 py-1.5 rounded-full text-sm transition-colors ${
+                  deckPool.mode === mode
+                    ? 'bg-violet-deep text-white'
+                    : 'bg-white border-2 border-violet-200 text-violet-medium hover:border-violet-deep'
+                }`}
+              >
+                {labels.deckModes[mode]}
+              </button>
+            ))}
+          </div>
+          {deckPool.mode === 'suit' && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {SUITS.map((suit) => (
+                <button
+                  key={suit}
+                  type="button"
+                  onClick={() => setDeckPool({ mode: 'suit', suit })}
+                  aria-pressed={deckPool.suit === suit}
+                  className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                    deckPool.suit === suit
+                      ? 'bg-gold-soft text-white'
+                      : 'bg-white border border-gold-soft/50 text-violet-deep hover:border-gold-soft'
+                  }`}
+                >
+                  {labels.suitNames[suit]}
+                </button>
+              ))}
+            </div>
+          )}
+          {deckPool.mode === 'custom' && (
+            <div className="mt-3">
+              <p className={`text-xs mb-2 ${poolTooSmall ? 'text-orange-600' : 'text-gray-500'}`}>
+                {labels.customCount(poolSize, cardCount)}
+              </p>
+              <div className="grid grid-cols-8 sm:grid-cols-12 gap-1 max-h-64 overflow-y-auto p-1 bg-white rounded-lg border border-violet-100">
+                {cardsData.map((card) => {
+                  const picked = deckPool.cardIds.includes(card.id);
+                  return (
+                    <button
+                      key={card.id}
+                      type="button"
+                      onClick={() => toggleCustomCard(card.id)}
+                      aria-pressed={picked}
+                      title={card.name}
+                      className={`rounded overflow-hidden border-2 transition-all ${
+                        picked ? 'border-gold-soft' : 'border-transparent opacity-40 hover:opacity-80'
+                      }`}
+                    >
+                      <img src={card.image} alt={card.name} className="w-full h-auto" loading="lazy" />
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Shuffle ritual */}
+        <div className="mb-8">
+          <p className="block text-sm font-semibold text-violet-deep mb-1">
+            🌀 {labels.ritualLabel}
+          </p>
+          <p className="text-xs text-gray-500 mb-3">{labels.ritualHint}</p>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(labels.ritualModes) as ShuffleRitualMode[]).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setRitual(
+                  mode === 'riffle' ? { mode, times: 7 }
+                  : mode === 'overhand' ? { mode, times: 5 }
+                  : { mode }
+                )}
+                aria-pressed={ritual.mode === mode}
+                className={`px-4 py-1.5 rounded-full text-sm transition-colors ${
+                  ritual.mode === mode
+                    ? 'bg-violet-deep text-white'
+                    : 'bg-white border-2 border-violet-200 text-violet-medium hover:border-violet-deep'
+                }`}
+              >
+                {labels.ritualModes[mode]}
+              </button>
+            ))}
+          </div>
+          {(ritual.mode === 'riffle' || ritual.mode === 'overhand') && (
+            <div className="flex items-center gap-3 mt-3">
+              <input
+                type="range"
+                min={1}
+                max={MAX_RITUAL_PASSES}
+                value={ritual.times}
+                onChange={(e) => setRitual({ mode: ritual.mode, times: Number(e.target.value) })}
+                className="flex-1 accent-violet-deep"
+                aria-label={labels.ritualLabel}
+              />
+              <span className="text-xs text-gray-600 w-44 text-right">
+                {labels.ritualPasses(ritual.times)}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div role="alert" className="mb-4 rounded-lg bg-red-50 border-l-4 border-red-500 px-4 py-3 text-sm text-red-700">
+            ⚠️ {error}
+          </div>
+        )}
+
+        {/* Reading limit */}
+        {quota && !quota.allowed && (
+          <div className="mb-4 rounded-lg bg-amber-50 border-l-4 border-gold-soft px-4 py-3 text-sm text-amber-700">
+            ⏳ {labels.quotaReached(quota.resetsInHours ?? 1)}
+          </div>
+        )}
+
         {/* CTA */}
         <div className="flex flex-col sm:flex-row gap-3 items-center justify-center">
           <button
             type="button"
             onClick={startDraw}
-            className="w-full sm:w-auto px-8 py-3 bg-gradient-to-r from-violet-deep to-violet-medium text-white font-semibold rounded-full shadow-lg hover:shadow-xl hover:scale-105 transition-all duration-200 text-base"
+            disabled={poolTooSmall || isStarting || (quota !== null && !quota.allowed)}
+            className="w-full sm:w-auto px-8 py-3 bg-gradient-to-r from-violet-deep to-violet-medium text-white font-semibold rounded-full shadow-lg hover:shadow-xl hover:scale-105 transition-all duration-200 text-base disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
           >
             ✨ {labels.shuffleBtn}
           </button>
         </div>
+        {quota && quota.allowed && (
+          <p className="text-center text-xs text-gray-400 mt-2">
+            {labels.quotaLeft(quota.remaining, quota.limit)}
+            {quota.resetsInHours !== null && labels.quotaResets(quota.resetsInHours)}
+          </p>
+        )}
 
         <div className="text-center mt-5">
           <a href="/" className="text-sm text-gray-400 hover:text-violet-medium transition-colors">
@@ -203,6 +691,12 @@ export default function ReadingWizard({ cardCount, spreadId, spread }: ReadingWi
         </span>
       </div>
 
+      {error && (
+        <div role="alert" className="max-w-xl mx-auto mb-5 rounded-lg bg-red-50 border-l-4 border-red-500 px-4 py-3 text-sm text-red-700">
+          ⚠️ {error}
+        </div>
+      )}
+
       {/* Question recap */}
       {question.trim() && (
         <div className="max-w-xl mx-auto mb-5">
@@ -231,6 +725,19 @@ export default function ReadingWizard({ cardCount, spreadId, spread }: ReadingWi
         </div>
       )}
 
+      {/* Deck commitment */}
+      {!isShuffling && deal?.commitment && (
+        <div className="max-w-xl mx-auto mb-5 text-center">
+          <p className="text-[11px] font-semibold text-violet-medium uppercase tracking-wide">
+            🔒 {labels.commitmentLabel}
+          </p>
+          <code className="block font-mono text-[10px] sm:text-xs text-gray-600 break-all select-all">
+            {deal.commitment}
+          </code>
+          <p className="text-[10px] text-gray-400 mt-1">{labels.commitmentHint}</p>
+        </div>
+      )}
+
       {/* Spread layout preview */}
       <div className="bg-gradient-to-br from-violet-50 to-purple-50 rounded-2xl p-3 md:p-5 mb-6 border border-violet-100 shadow-inner">
         <SpreadLayout
@@ -272,18 +779,83 @@ export default function ReadingWizard({ cardCount, spreadId, spread }: ReadingWi
         </div>
       )}
 
+      {/* Cut ritual — restack the piles */}
+      {!isShuffling && piles && (
+        <div className="max-w-xl mx-auto text-center py-4">
+          <p className="font-heading text-lg text-violet-deep">{labels.cutHeading}</p>
+          <p className="text-xs text-gray-500 mb-5">{labels.cutHint}</p>
+          <div className="flex justify-center gap-4 md:gap-8">
+            {piles.map((pile, index) => {
+              const chosenAt = pileOrder.indexOf(index);
+              return (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => choosePile(index)}
+                  disabled={chosenAt !== -1}
+                  className="flex flex-col items-center gap-2 group"
+                >
+                  <div className={`relative w-16 h-24 md:w-20 md:h-32 rounded-md overflow-hidden border-2 shadow-lg transition-all ${
+                    chosenAt !== -1 ? 'border-violet-deep opacity-50' : 'border-gold-soft group-hover:scale-105'
+                  }`}>
+                    <img src="/images/cards/cardback.jpg" alt={labels.pileLabel(index + 1)} className="w-full h-full object-cover" />
+                    {chosenAt !== -1 && (
+                      <span className="absolute inset-0 flex items-center justify-center text-2xl font-bold text-white bg-violet-deep/60">
+                        {chosenAt + 1}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-xs font-semibold text-violet-deep">{labels.pileLabel(index + 1)}</span>
+                  <span className="text-[10px] text-gray-400">{labels.pileCards(pile.length)}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Pick-by-number ritual */}
+      {ritual.mode === 'pick' && canDraw && (
+        <form
+          className="max-w-sm mx-auto flex flex-col items-center gap-3 py-4"
+          onSubmit={(e) => { e.preventDefault(); pickByNumber(); }}
+        >
+          <label htmlFor="wizard-pick-number" className="text-sm text-gray-600">
+            {labels.pickHint(remainingInDeck)}
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="wizard-pick-number"
+              type="number"
+              min={1}
+              max={remainingInDeck}
+              value={pickNumber}
+              onChange={(e) => setPickNumber(e.target.value)}
+              className="w-28 rounded-lg border-2 border-violet-200 focus:border-violet-deep focus:outline-none px-3 py-2 text-center text-lg"
+            />
+            <button
+              type="submit"
+              disabled={!(Number(pickNumber) >= 1 && Number(pickNumber) <= remainingInDeck)}
+              className="px-5 py-2 bg-violet-deep text-white rounded-lg hover:bg-violet-medium transition-colors disabled:opacity-50"
+            >
+              {labels.pickBtn}
+            </button>
+          </div>
+        </form>
+      )}
+
       {/* Fan deck */}
-      {!isShuffling && !isNavigating && deck.length > 0 && canDraw && (
+      {ritual.mode !== 'pick' && canDraw && (
         <div className="relative w-full flex items-end justify-center">
           <div className="relative w-full max-w-[95vw] md:max-w-[750px]" style={{ height: '220px' }}>
-            {deck.map((cardId, index) => {
-              const isSelected = selectedCards.some(sc => sc.cardId === cardId);
+            {Array.from({ length: deckSize }, (_, index) => {
+              const isSelected = pickedIndexes.includes(index);
               const canSelect = !isSelected && canDraw;
 
-              const totalCards = 78;
+              const totalCards = deckSize;
               const spreadAngle = 140;
               const startAngle = -spreadAngle / 2;
-              const angleStep = spreadAngle / (totalCards - 1);
+              const angleStep = spreadAngle / Math.max(totalCards - 1, 1);
               const rotation = startAngle + angleStep * index;
               const baseRadius =
                 typeof window !== 'undefined' && window.innerWidth < 640 ? 150 :
@@ -325,22 +897,24 @@ export default function ReadingWizard({ cardCount, spreadId, spread }: ReadingWi
             })}
           </div>
 
-          {/* Shuffle again */}
-          <div className="absolute top-2 right-2 md:top-4 md:right-4">
-            <button
-              type="button"
-              onClick={doShuffle}
-              className="px-4 py-2 bg-violet-deep text-white text-sm rounded-full hover:bg-violet-medium transition-all shadow-lg hover:shadow-xl hover:scale-110 flex items-center gap-2"
-            >
-              <span className="text-lg">🔄</span>
-              <span className="hidden sm:inline">{labels.shuffleAgain}</span>
-            </button>
-          </div>
+          {/* Shuffle again — only before the first pick */}
+          {drawnCount === 0 && (
+            <div className="absolute top-2 right-2 md:top-4 md:right-4">
+              <button
+                type="button"
+                onClick={shuffleAgain}
+                className="px-4 py-2 bg-violet-deep text-white text-sm rounded-full hover:bg-violet-medium transition-all shadow-lg hover:shadow-xl hover:scale-110 flex items-center gap-2"
+              >
+                <span className="text-lg">🔄</span>
+                <span className="hidden sm:inline">{labels.shuffleAgain}</span>
+              </button>
+            </div>
+          )}
         </div>
       )}
 
       {/* Progress bar */}
-      {!isShuffling && deck.length > 0 && (
+      {!isShuffling && deckSize > 0 && (
         <div className="max-w-md mx-auto mt-6">
           <div className="flex justify-between items-center mb-2">
             <span className="text-sm text-gray-600">{labels.progress}</span>
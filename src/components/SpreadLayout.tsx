@@ -16,32 +16,48 @@ interface SpreadLayoutProps {
 function CardSlot({
   card,
   cardData,
+  cardsData,
   positionInfo,
   index,
   isActive
 }: {
   card?: SelectedCard;
   cardData?: any;
+  /** For the clarifier's image */
+  cardsData: any[];
   positionInfo: any;
   index: number;
   isActive?: boolean;
 }) {
   const hasCard = !!card;
+  const clarifierData = card?.clarifier ? cardsData[card.clarifier.cardId] : null;
 
   return (
     <div className="flex flex-col items-center gap-1 md:gap-2">
       {hasCard ? (
         <div className="animate-fadeIn">
-          <div
-            className={`w-[70px] h-[105px] sm:w-[90px] sm:h-[135px] md:w-[110px] md:h-[165px] rounded-lg shadow-xl border-2 md:border-3 border-gold-soft overflow-hidden transform transition-all duration-300 hover:scale-105 ${
-              card.reversed ? 'rotate-180' : ''
-            }`}
-          >
-            <img
-              src={cardData.image}
-              alt={cardData.name}
-              className="w-full h-full object-cover"
-            />
+          <div className="relative">
+            <div
+              className={`w-[70px] h-[105px] sm:w-[90px] sm:h-[135px] md:w-[110px] md:h-[165px] rounded-lg shadow-xl border-2 md:border-3 border-gold-soft overflow-hidden transform transition-all duration-300 hover:scale-105 ${
+                card.reversed ? 'rotate-180' : ''
+              }`}
+            >
+              <img
+                src={cardData.image}
+                alt={cardData.name}
+                className="w-full h-full object-cover"
+              />
+            </div>
+            {/* Clarifier tucked against the card's corner */}
+            {clarifierData && (
+              <div
+                className={`absolute -bottom-2 -right-3 w-[28px] h-[42px] sm:w-[36px] sm:h-[54px] rounded border-2 border-violet-300 shadow-lg overflow-hidden ${
+                  card.clarifier?.reversed ? 'rotate-180' : ''
+                }`}
+              >
+                <img src={clarifierData.image} alt={clarifierData.name} className="w-full h-full object-cover" />
+              </div>
+            )}
           </div>
           <div className="text-center mt-1 max-w-[70px] sm:max-w-[90px] md:max-w-[110px] mx-auto">
             <p className="font-semibold text-violet-deep text-[10px] sm:text-xs truncate">{positionInfo.name}</p>
@@ -101,7 +117,7 @@ export default function SpreadLayout({ spread, selectedCards, cardsData, activeP
             {positions.map((pos, idx) => {
               const card = selectedCards[idx];
               const cardData = card ? cardsData[card.cardId] : null;
-              return <CardSlot key={idx} card={card} cardData={cardData} positionInfo={pos} index={idx} isActive={isActive(idx)} />;
+              return <CardSlot key={idx} card={card} cardData={cardData} cardsData={cardsData} positionInfo={pos} index={idx} isActive={isActive(idx)} />;
             })}
           </div>
         );
@@ -126,7 +142,7 @@ export default function SpreadLayout({ spread, selectedCards, cardsData, activeP
                   const card = selectedCards[currentIdx];
                   const cardData = card ? cardsData[card.cardId] : null;
                   const pos = positions[currentIdx];
-                  return <CardSlot key={currentIdx} card={card} cardData={cardData} positionInfo={pos} index={currentIdx} isActive={isActive(currentIdx)} />;
+                  return <CardSlot key={currentIdx} card={card} cardData={cardData} cardsData={cardsData} positionInfo={pos} index={currentIdx} isActive={isActive(currentIdx)} />;
                 })}
               </div>
             ))}
@@ -145,7 +161,7 @@ export default function SpreadLayout({ spread, selectedCards, cardsData, activeP
                   const card = selectedCards[currentIdx];
                   const cardData = card ? cardsData[card.cardId] : null;
                   const pos = positions[currentIdx];
-                  return <CardSlot key={currentIdx} card={card} cardData={cardData} positionInfo={pos} index={currentIdx} isActive={isActive(currentIdx)} />;
+                  return <CardSlot key={currentIdx} card={card} cardData={cardData} cardsData={cardsData} positionInfo={pos} index={currentIdx} isActive={isActive(currentIdx)} />;
                 })}
               </div>
             ))}
@@ -165,7 +181,7 @@ export default function SpreadLayout({ spread, selectedCards, cardsData, activeP
                 const card = selectedCards[currentIdx];
                 const cardData = card ? cardsData[card.cardId] : null;
                 const pos = positions[currentIdx];
-                return <CardSlot key={currentIdx} card={card} cardData={cardData} positionInfo={pos} index={currentIdx} isActive={isActive(currentIdx)} />;
+                return <CardSlot key={currentIdx} card={card} cardData={cardData} cardsData={cardsData} positionInfo={pos} index={currentIdx} isActive={isActive(currentIdx)} />;
               })}
             </div>
             {/* Stem */}
@@ -174,7 +190,7 @@ export default function SpreadLayout({ spread, selectedCards, cardsData, activeP
               const card = selectedCards[currentIdx];
               const cardData = card ? cardsData[card.cardId] : null;
               const pos = positions[currentIdx];
-              return <CardSlot key={currentIdx} card={card} cardData={cardData} positionInfo={pos} index={currentIdx} isActive={isActive(currentIdx)} />;
+              return <CardSlot key={currentIdx} card={card} cardData={cardData} cardsData={cardsData} positionInfo={pos} index={currentIdx} isActive={isActive(currentIdx)} />;
             })}
           </div>
         );
@@ -190,36 +206,36 @@ export default function SpreadLayout({ spread, selectedCards, cardsData, activeP
                 {/* Row 1 */}
                 <div></div>
                 <div className="row-start-1 col-start-2">
-                  <CardSlot card={selectedCards[2]} cardData={selectedCards[2] ? cardsData[selectedCards[2].cardId] : null} positionInfo={positions[2]} index={2} isActive={isActive(2)} />
+                  <CardSlot card={selectedCards[2]} cardData={selectedCards[2] ? cardsData[selectedCards[2].cardId] : null} cardsData={cardsData} positionInfo={positions[2]} index={2} isActive={isActive(2)} />
                 </div>
                 <div></div>
                 {/* Row 2 */}
                 <div className="row-start-2 col-start-1">
-                  <CardSlot card={selectedCards[3]} cardData={selectedCards[3] ? cardsData[selectedCards[3].cardId] : null} positionInfo={positions[3]} index={3} isActive={isActive(3)} />
+                  <CardSlot card={selectedCards[3]} cardData={selectedCards[3] ? cardsData[selectedCards[3].cardId] : null} cardsData={cardsData} positionInfo={positions[3]} index={3} isActive={isActive(3)} />
                 </div>
                 <div className="row-start-2 col-start-2 relative">
                   {/* Center: Card 1 and Card 2 (crossing) */}
                   <div className="relative">
-                    <CardSlot card={selectedCards[0]} cardData={selectedCards[0] ? cardsData[selectedCards[0].cardId] : null} positionInfo={positions[0]} index={0} isActive={isActive(0)} />
+                    <CardSlot card={selectedCards[0]} cardData={selectedCards[0] ? cardsData[selectedCards[0].cardId] : null} cardsData={cardsData} positionInfo={positions[0]} index={0} isActive={isActive(0)} />
                     {selectedCards[1] && (
                       <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 rotate-90 opacity-90">
-                        <CardSlot card={selectedCards[1]} cardData={cardsData[selectedCards[1].cardId]} positionInfo={positions[1]} index={1} isActive={isActive(1)} />
+                        <CardSlot card={selectedCards[1]} cardData={cardsData[selectedCards[1].cardId]} cardsData={cardsData} positionInfo={positions[1]} index={1} isActive={isActive(1)} />
                       </div>
                     )}
                     {!selectedCards[1] && isActive(1) && (
                       <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 rotate-90 opacity-90">
-                        <CardSlot card={undefined} cardData={null} positionInfo={positions[1]} index={1} isActive={true} />
+                        <CardSlot card={undefined} cardData={null} cardsData={cardsData} positionInfo={positions[1]} index={1} isActive={true} />
                       </div>
                     )}
                   </div>
                 </div>
                 <div className="row-start-2 col-start-3">
-                  <CardSlot card={selectedCards[5]} cardData={selectedCards[5] ? cardsData[selectedCards[5].cardId] : null} positionInfo={positions[5]} index={5} isActive={isActive(5)} />
+                  <CardSlot card={selectedCards[5]} cardData={selectedCards[5] ? cardsData[selectedCards[5].cardId] : null} cardsData={cardsData} positionInfo={positions[5]} index={5} isActive={isActive(5)} />
                 </div>
                 {/* Row 3 */}
                 <div></div>
                 <div className="row-start-3 col-start-2">
-                  <CardSlot card={selectedCards[4]} cardData={selectedCards[4] ? cardsData[selectedCards[4].cardId] : null} positionInfo={positions[4]} index={4} isActive={isActive(4)} />
+                  <CardSlot card={selectedCards[4]} cardData={selectedCards[4] ? cardsData[selectedCards[4].cardId] : null} cardsData={cardsData} positionInfo={positions[4]} index={4} isActive={isActive(4)} />
                 </div>
                 <div></div>
               </div>
@@ -231,6 +247,7 @@ export default function SpreadLayout({ spread, selectedCards, cardsData, activeP
                   key={idx}
                   card={selectedCards[idx]}
                   cardData={selectedCards[idx] ? cardsData[selectedCards[idx].cardId] : null}
+                  cardsData={cardsData}
                   positionInfo={positions[idx]}
                   index={idx}
                   isActive={isActive(idx)}
@@ -249,7 +266,7 @@ export default function SpreadLayout({ spread, selectedCards, cardsData, activeP
               const cardData = card ? cardsData[card.cardId] : null;
               return (
                 <div key={idx} style={{ marginLeft: `${idx * 10}px` }}>
-                  <CardSlot card={card} cardData={cardData} positionInfo={pos} index={idx} isActive={isActive(idx)} />
+                  <CardSlot card={card} cardData={cardData} cardsData={cardsData} positionInfo={pos} index={idx} isActive={isActive(idx)} />
                 </div>
               );
             })}
@@ -263,7 +280,7 @@ export default function SpreadLayout({ spread, selectedCards, cardsData, activeP
             {positions.map((pos, idx) => {
               const card = selectedCards[idx];
               const cardData = card ? cardsData[card.cardId] : null;
-              return <CardSlot key={idx} card={card} cardData={cardData} positionInfo={pos} index={idx} isActive={isActive(idx)} />;
+              return <CardSlot key={idx} card={card} cardData={cardData} cardsData={cardsData} positionInfo={pos} index={idx} isActive={isActive(idx)} />;
             })}
           </div>
         );
@@ -0,0 +1,307 @@
+/**
+ * Stats Dashboard Component
+ * Personal statistics over the reading journal, drawn as lightweight SVG charts.
+ */
+
+import { useState, useEffect } from 'react';
+import { getJournal } from '../utils/journal';
+import {
+  computeJournalStats,
+  SUIT_BUCKETS,
+  ELEMENTS,
+  EXPECTED_MAJOR_SHARE,
+  type JournalStats,
+  type SuitBucket,
+} from '../utils/journalStats';
+import type { Element } from '../utils/deckPool';
+import type { MeaningCategory } from '../utils/questionCategory';
+import { i18n } from '../utils/i18n';
+
+interface StatsDashboardProps {
+  /** Localized card names, indexed by card ID */
+  cardNames: string[];
+  /** Localized spread names by spread ID */
+  spreadNames: Record<string, string>;
+}
+
+const BUCKET_COLORS: Record<SuitBucket, string> = {
+  major: '#6d28d9',
+  wands: '#ea580c',
+  cups: '#0284c7',
+  swords: '#64748b',
+  pentacles: '#16a34a',
+};
+
+const ELEMENT_COLORS: Record<Element, string> = {
+  fire: '#ea580c',
+  water: '#0284c7',
+  air: '#64748b',
+  earth: '#16a34a',
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// ── Horizontal bar chart ──────────────────────────────────────────────────────
+function BarChart({ items }: { items: Array<{ label: string; value: number; color?: string }> }) {
+  const max = Math.max(1, ...items.map(i => i.value));
+  const rowHeight = 22;
+  const labelWidth = 150;
+  const width = 460;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${items.length * rowHeight}`} className="w-full" role="img">
+      {items.map((item, i) => {
+        const barWidth = ((width - labelWidth - 30) * item.value) / max;
+        const y = i * rowHeight;
+        return (
+          <g key={i}>
+            <text x={labelWidth - 6} y={y + 15} textAnchor="end" fontSize="11" fill="#4b5563">
+              {item.label.length > 24 ? `${item.label.slice(0, 23)}…` : item.label}
+            </text>
+            <rect x={labelWidth} y={y + 4} width={Math.max(barWidth, 1)} height={rowHeight - 8} rx="3" fill={item.color ?? '#6d28d9'} />
+            <text x={labelWidth + barWidth + 4} y={y + 15} fontSize="11" fill="#6b7280">{item.value}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+// ── Stacked columns (share of each key per period) ────────────────────────────
+function StackedColumns<K extends string>({
+  periods,
+  keys,
+  colors,
+}: {
+  periods: Array<{ period: string; values: Record<K, number> }>;
+  keys: K[];
+  colors: Record<K, string>;
+}) {
+  const height = 160;
+  const columnWidth = 28;
+  const gap = 10;
+  const width = Math.max(200, periods.length * (columnWidth + gap));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height + 18}`} className="w-full max-h-56" role="img" preserveAspectRatio="xMinYMid meet">
+      {periods.map(({ period, values }, i) => {
+        const total = keys.reduce((sum, k) => sum + values[k], 0);
+        const x = i * (columnWidth + gap);
+        let y = height;
+        return (
+          <g key={period}>
+            {total > 0 && keys.map(k => {
+              const h = (values[k] / total) * height;
+              y -= h;
+              return <rect key={k} x={x} y={y} width={columnWidth} height={h} fill={colors[k]} />;
+            })}
+            <text x={x + columnWidth / 2} y={height + 13} textAnchor="middle" fontSize="9" fill="#6b7280">
+              {period.slice(2)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function StatsDashboard({ cardNames, spreadNames }: StatsDashboardProps) {
+  const [stats, setStats] = useState<JournalStats | null>(null);
+  const [balanceView, setBalanceView] = useState<'suits' | 'elements'>('suits');
+
+  const lang = i18n.getCurrentLanguage();
+
+  const labels = lang === 'vi'
+    ? {
+        loading: 'Đang tính toán…',
+        empty: 'Chưa có lượt xem bài nào trong nhật ký. Thống kê sẽ xuất hiện sau lượt rút bài đầu tiên.',
+        readings: 'Lượt xem bài',
+        cardsDrawn: 'Lá đã rút',
+        reversalRatio: 'Tỉ lệ lá ngược',
+        majorShare: 'Tỉ lệ Ẩn Chính',
+        majorExpected: (share: string) => `Kỳ vọng ngẫu nhiên: ${share}`,
+        topCards: 'Lá Xuất Hiện Nhiều Nhất',
+        balance: 'Cân Bằng Theo Thời Gian',
+        suits: 'Chất',
+        elements: 'Nguyên tố',
+        majors: 'Tần Suất Ẩn Chính',
+        spreads: 'Trải Bài Dùng Nhiều Nhất',
+        recurring: 'Lá Lặp Lại Theo Chủ Đề',
+        noRecurring: 'Chưa có lá nào lặp lại.',
+        bucketNames: { major: 'Ẩn Chính', wands: 'Gậy', cups: 'Cốc', swords: 'Kiếm', pentacles: 'Tiền' } as Record<SuitBucket, string>,
+        elementNames: { fire: 'Lửa', water: 'Nước', air: 'Khí', earth: 'Đất' } as Record<Element, string>,
+        categoryNames: {
+          work: '💼 Công việc', love: '❤️ Tình yêu', health: '🏥 Sức khỏe', spirituality: '✨ Tâm linh', general: '🔮 Chung',
+        } as Record<MeaningCategory, string>,
+      }
+    : {
+        loading: 'Crunching the numbers…',
+        empty: 'Your journal is empty. Stats appear after your first reading.',
+        readings: 'Readings',
+        cardsDrawn: 'Cards drawn',
+        reversalRatio: 'Reversal ratio',
+        majorShare: 'Major Arcana share',
+        majorExpected: (share: string) => `Expected by chance: ${share}`,
+        topCards: 'Most Frequent Cards',
+        balance: 'Balance Over Time',
+        suits: 'Suits',
+        elements: 'Elements',
+        majors: 'Major Arcana Frequency',
+        spreads: 'Most-Used Spreads',
+        recurring: 'Recurring Cards by Topic',
+        noRecurring: 'No card has come up twice yet.',
+        bucketNames: { major: 'Major Arcana', wands: 'Wands', cups: 'Cups', swords: 'Swords', pentacles: 'Pentacles' } as Record<SuitBucket, string>,
+        elementNames: { fire: 'Fire', water: 'Water', air: 'Air', earth: 'Earth' } as Record<Element, string>,
+        categoryNames: {
+          work: '💼 Work', love: '❤️ Love', health: '🏥 Health', spirituality: '✨ Spirituality', general: '🔮 General',
+        } as Record<MeaningCategory, string>,
+      };
+
+  useEffect(() => {
+    getJournal()
+      .then(journal => journal.list())
+      .then(readings => setStats(computeJournalStats(readings)))
+      .catch(error => console.error('Error loading journal:', error));
+  }, []);
+
+  if (!stats) {
+    return <p className="text-center text-violet-medium animate-pulse py-12">{labels.loading}</p>;
+  }
+
+  if (stats.totalReadings === 0) {
+    return <p className="text-center text-gray-500 py-12">{labels.empty}</p>;
+  }
+
+  const tiles = [
+    { label: labels.readings, value: String(stats.totalReadings) },
+    { label: labels.cardsDrawn, value: String(stats.totalCards) },
+    { label: labels.reversalRatio, value: percent(stats.reversalRatio) },
+    { label: labels.majorShare, value: percent(stats.majorShare), hint: labels.majorExpected(percent(EXPECTED_MAJOR_SHARE)) },
+  ];
+
+  const recurringCategories = (Object.keys(stats.recurringByCategory) as MeaningCategory[])
+    .filter(category => stats.recurringByCategory[category].length > 0);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      {/* Summary tiles */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-white rounded-lg shadow p-4 text-center">
+            <p className="text-3xl font-heading text-violet-deep">{tile.value}</p>
+            <p className="text-xs text-gray-500 uppercase tracking-wide">{tile.label}</p>
+            {tile.hint && <p className="text-[10px] text-gray-400 mt-1">{tile.hint}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-8">
+        {/* Most frequent cards */}
+        <section className="bg-white rounded-lg shadow p-5">
+          <h2 className="text-xl font-heading text-violet-deep mb-3">🃏 {labels.topCards}</h2>
+          <BarChart
+            items={stats.cardFrequencies.slice(0, 10).map(f => ({
+              label: cardNames[f.cardId] ?? `#${f.cardId}`,
+              value: f.count,
+            }))}
+          />
+        </section>
+
+        {/* Most-used spreads */}
+        <section className="bg-white rounded-lg shadow p-5">
+          <h2 className="text-xl font-heading text-violet-deep mb-3">🗂️ {labels.spreads}</h2>
+          <BarChart
+            items={stats.spreadCounts.slice(0, 10).map(s => ({
+              label: spreadNames[s.spreadId] ?? s.spreadId,
+              value: s.count,
+              color: '#b8860b',
+            }))}
+          />
+        </section>
+      </div>
+
+      {/* Suit / element balance over time */}
+      <section className="bg-white rounded-lg shadow p-5">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-heading text-violet-deep">⚖️ {labels.balance}</h2>
+          <div className="flex gap-1 text-xs">
+            {(['suits', 'elements'] as const).map(view => (
+              <button
+                key={view}
+                type="button"
+                onClick={() => setBalanceView(view)}
+                aria-pressed={balanceView === view}
+                className={`px-3 py-1 rounded-full ${balanceView === view ? 'bg-violet-deep text-white' : 'border border-violet-200 text-violet-medium'}`}
+              >
+                {labels[view]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {balanceView === 'suits' ? (
+          <StackedColumns
+            periods={stats.balanceOverTime.map(p => ({ period: p.period, values: p.suits }))}
+            keys={SUIT_BUCKETS}
+            colors={BUCKET_COLORS}
+          />
+        ) : (
+          <StackedColumns
+            periods={stats.balanceOverTime.map(p => ({ period: p.period, values: p.elements }))}
+            keys={ELEMENTS}
+            colors={ELEMENT_COLORS}
+          />
+        )}
+        <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-600">
+          {balanceView === 'suits'
+            ? SUIT_BUCKETS.map(b => (
+                <span key={b} className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-sm inline-block" style={{ background: BUCKET_COLORS[b] }} />
+                  {labels.bucketNames[b]} ({stats.suitCounts[b]})
+                </span>
+              ))
+            : ELEMENTS.map(e => (
+                <span key={e} className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-sm inline-block" style={{ background: ELEMENT_COLORS[e] }} />
+                  {labels.elementNames[e]} ({stats.elementCounts[e]})
+                </span>
+              ))}
+        </div>
+      </section>
+
+      <div className="grid md:grid-cols-2 gap-8">
+        {/* Major Arcana frequency */}
+        <section className="bg-white rounded-lg shadow p-5">
+          <h2 className="text-xl font-heading text-violet-deep mb-3">✨ {labels.majors}</h2>
+          <BarChart
+            items={stats.majorFrequencies.slice(0, 10).map(f => ({
+              label: cardNames[f.cardId] ?? `#${f.cardId}`,
+              value: f.count,
+              color: BUCKET_COLORS.major,
+            }))}
+          />
+        </section>
+
+        {/* Recurring cards by category */}
+        <section className="bg-white rounded-lg shadow p-5">
+          <h2 className="text-xl font-heading text-violet-deep mb-3">🔁 {labels.recurring}</h2>
+          {recurringCategories.length === 0 ? (
+            <p className="text-sm text-gray-500">{labels.noRecurring}</p>
+          ) : (
+            <div className="space-y-3">
+              {recurringCategories.map(category => (
+                <div key={category}>
+                  <p className="text-sm font-semibold text-violet-medium">{labels.categoryNames[category]}</p>
+                  <p className="text-sm text-gray-700">
+                    {stats.recurringByCategory[category].slice(0, 5)
+                      .map(f => `${cardNames[f.cardId] ?? `#${f.cardId}`} ×${f.count}`)
+                      .join(' · ')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
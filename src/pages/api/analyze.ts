@@ -0,0 +1,17 @@
+/**
+ * Reading analysis API
+ * POST /api/analyze { spreadId, cards: [{ cardId, reversed }], question?, pool?, mode?, lang? }
+ * Runs the full reading synthesis the result page shows.
+ */
+
+import type { APIRoute } from 'astro';
+import { analyzeSpread, apiJson, apiLanguage, apiPreflight, handleApi, readJsonBody } from '../../utils/publicApi';
+
+export const prerender = false;
+
+export const POST: APIRoute = ({ request }) => handleApi(async () => {
+  const body = await readJsonBody(request);
+  return apiJson(analyzeSpread(body, apiLanguage(request, body)));
+});
+
+export const OPTIONS: APIRoute = () => apiPreflight();
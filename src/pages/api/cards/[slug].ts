@@ -0,0 +1,19 @@
+/**
+ * Single card API
+ * GET /api/cards/{slug}?lang=vi — e.g. /api/cards/the-fool
+ */
+
+import type { APIRoute } from 'astro';
+import type { TarotCard } from '../../../types/tarot';
+import { loadCards } from '../../../utils/loadData';
+import { apiJson, apiLanguage, apiPreflight, handleApi, toApiCard, ApiError } from '../../../utils/publicApi';
+
+export const prerender = false;
+
+export const GET: APIRoute = ({ params, request, url }) => handleApi(() => {
+  const card = (loadCards(apiLanguage(request)) as TarotCard[]).find(c => c.slug === params.slug);
+  if (!card) throw new ApiError(404, `Unknown card "${params.slug}"`);
+  return apiJson(toApiCard(card, url.origin), 200, 3600);
+});
+
+export const OPTIONS: APIRoute = () => apiPreflight();
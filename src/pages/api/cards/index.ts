@@ -0,0 +1,39 @@
+/**
+ * Card list API
+ * GET /api/cards?lang=vi&arcana=minor&suit=cups&q=love
+ *   arcana — major | minor
+ *   suit   — wands | cups | swords | pentacles
+ *   q      — text to find in the card name or keywords
+ */
+
+import type { APIRoute } from 'astro';
+import type { TarotCard } from '../../../types/tarot';
+import { loadCards } from '../../../utils/loadData';
+import { SUITS, type Suit } from '../../../utils/deckPool';
+import { apiJson, apiLanguage, apiPreflight, handleApi, toApiCard, ApiError } from '../../../utils/publicApi';
+
+export const prerender = false;
+
+export const GET: APIRoute = ({ request, url }) => handleApi(() => {
+  const lang = apiLanguage(request);
+  const arcana = url.searchParams.get('arcana');
+  const suit = url.searchParams.get('suit');
+  const query = url.searchParams.get('q')?.trim().toLowerCase();
+
+  if (arcana && arcana !== 'major' && arcana !== 'minor') {
+    throw new ApiError(400, '"arcana" must be major or minor');
+  }
+  if (suit && !SUITS.includes(suit as Suit)) {
+    throw new ApiError(400, `"suit" must be one of ${SUITS.join(', ')}`);
+  }
+
+  const cards = (loadCards(lang) as TarotCard[]).filter(card =>
+    (!arcana || card.arcana === arcana)
+    && (!suit || card.suit === suit)
+    && (!query || card.name.toLowerCase().includes(query) || card.keywords.some(k => k.toLowerCase().includes(query)))
+  );
+
+  return apiJson({ count: cards.length, cards: cards.map(card => toApiCard(card, url.origin)) }, 200, 3600);
+});
+
+export const OPTIONS: APIRoute = () => apiPreflight();
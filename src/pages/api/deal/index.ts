@@ -0,0 +1,33 @@
+/**
+ * Deal API — the seed the wizard deals a reading from (see deal.ts)
+ * POST /api/deal { spreadId, seed?, pool?, rev?, ritual?, lang? }
+ * Uses one reading from the quota (429 when none are left) and returns
+ * { seed, ticket?, quota }. Without a `seed` the server chooses one and, when
+ * signing is configured, issues a ticket for it; a replayed seed gets none.
+ */
+
+import type { APIRoute } from 'astro';
+import { apiJson, apiLanguage, apiQuotaExceeded, handleApi, parseDrawOptions, readJsonBody } from '../../../utils/publicApi';
+import { consumeQuota } from '../../../utils/readingQuota';
+import { formatSeed, generateSeed } from '../../../utils/rng';
+import { getShareSecret, issueDealTicket } from '../../../utils/shareSignature';
+import { getQuotaKey, getQuotaStore } from '../../../utils/quotaServer';
+import type { DealSeed } from '../../../utils/deal';
+
+export const prerender = false;
+
+export const POST: APIRoute = ({ request, cookies, clientAddress }) => handleApi(async () => {
+  const body = await readJsonBody(request);
+  const { spread, seed: replaySeed, pool, policy, ritual } = parseDrawOptions(body, apiLanguage(request, body));
+
+  const quota = await consumeQuota(getQuotaStore(), getQuotaKey(cookies, clientAddress));
+  if (!quota.allowed) return apiQuotaExceeded(quota);
+
+  const seed = replaySeed ?? generateSeed();
+  const dealt: DealSeed = { seed: formatSeed(seed) };
+  const secret = getShareSecret();
+  if (secret && replaySeed === undefined) {
+    dealt.ticket = issueDealTicket({ seed, spreadId: spread.id, pool, policy, ritual }, secret);
+  }
+  return apiJson({ ...dealt, quota });
+});
@@ -0,0 +1,31 @@
+/**
+ * POST /api/deal/shuffle { spreadId, seed, ticket, pool?, rev?, ritual? }
+ * Shuffle again: swaps a ticketed seed for a fresh one and its ticket,
+ * { seed, ticket }, without using another reading. 403 unless the ticket is
+ * valid for the seed and options.
+ */
+
+import type { APIRoute } from 'astro';
+import { ApiError, apiJson, apiLanguage, handleApi, parseDrawOptions, readJsonBody } from '../../../utils/publicApi';
+import { formatSeed, generateSeed } from '../../../utils/rng';
+import { getShareSecret, issueDealTicket, readDealTicket } from '../../../utils/shareSignature';
+import type { DealSeed } from '../../../utils/deal';
+
+export const prerender = false;
+
+export const POST: APIRoute = ({ request }) => handleApi(async () => {
+  const body = await readJsonBody(request);
+  const { spread, seed, pool, policy, ritual } = parseDrawOptions(body, apiLanguage(request, body));
+  const secret = getShareSecret();
+  const issuedAt = secret && seed !== undefined
+    ? readDealTicket({ seed, spreadId: spread.id, pool, policy, ritual }, body.ticket, secret)
+    : null;
+  if (!secret || issuedAt === null) throw new ApiError(403, 'No valid ticket for this seed');
+
+  const next = generateSeed();
+  const dealt: DealSeed = {
+    seed: formatSeed(next),
+    ticket: issueDealTicket({ seed: next, spreadId: spread.id, pool, policy, ritual }, secret, issuedAt),
+  };
+  return apiJson(dealt);
+});
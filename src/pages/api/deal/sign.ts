@@ -0,0 +1,56 @@
+/**
+ * POST /api/deal/sign { path: "/result/{token}?...", ticket } — { sig }
+ * Signs a finished reading's link (see shareSignature.ts) if its seed has a
+ * valid ticket and its draw proof checks out: the committed deck is the one
+ * that seed deals, and the cards are the ones picked from it.
+ * 503 when no SHARE_LINK_SECRET is configured.
+ */
+
+import type { APIRoute } from 'astro';
+import { ApiError, apiJson, handleApi, readJsonBody } from '../../../utils/publicApi';
+import { decodeResultPath } from '../../../utils/readingCodec';
+import { parseCommitment, parseDrawProof, proofMatchesCards, verifyCommitment } from '../../../utils/drawProof';
+import { parseDeckPool, getPoolCardIds } from '../../../utils/deckPool';
+import { parseReversalPolicy } from '../../../utils/reversalPolicy';
+import { parseShuffleRitual } from '../../../utils/deckRitual';
+import { isDealtFromSeed } from '../../../utils/deal';
+import { loadCards } from '../../../utils/loadData';
+import { getShareSecret, readDealTicket, signReading } from '../../../utils/shareSignature';
+
+export const prerender = false;
+
+export const POST: APIRoute = ({ request, url }) => handleApi(async () => {
+  const secret = getShareSecret();
+  if (!secret) throw new ApiError(503, 'Signing is not configured');
+
+  const body = await readJsonBody(request);
+  const link = typeof body.path === 'string' && body.path.startsWith('/result/') ? new URL(body.path, url.origin) : null;
+  const decoded = link ? decodeResultPath(link.pathname.slice('/result/'.length)) : null;
+  if (!link || !decoded || decoded.legacy || decoded.clarifierSegment) {
+    throw new ApiError(400, '"path" must be a /result/ link without clarifiers');
+  }
+
+  const { reading } = decoded;
+  const params = link.searchParams;
+  const pool = parseDeckPool(params.get('pool'));
+  const policy = parseReversalPolicy(params.get('rev'));
+  const ritual = parseShuffleRitual(params.get('ritual'));
+  const seed = reading.seed;
+  if (seed === undefined || readDealTicket({ seed, spreadId: reading.spreadId, pool, policy, ritual }, body.ticket, secret) === null) {
+    throw new ApiError(403, 'No valid ticket for this reading\'s seed');
+  }
+
+  const commitment = parseCommitment(params.get('commit'));
+  const proof = parseDrawProof(params.get('proof'), loadCards('en').length);
+  const checksOut = commitment !== null && proof !== null
+    && proofMatchesCards(proof, reading.cards)
+    && isDealtFromSeed(proof, { spreadId: reading.spreadId, poolIds: getPoolCardIds(pool), policy, ritual }, seed)
+    && await verifyCommitment(proof, commitment);
+  if (!checksOut) throw new ApiError(403, 'The draw proof does not match the ticketed seed');
+
+  try {
+    return apiJson({ sig: signReading(reading, secret) });
+  } catch {
+    throw new ApiError(400, 'Reading cannot be signed');
+  }
+});
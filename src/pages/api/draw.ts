@@ -0,0 +1,35 @@
+/**
+ * Draw API
+ * POST /api/draw { spreadId, question?, seed?, pool?, rev?, ritual?, lang? }
+ * Shuffles and deals the spread; the same seed and options give the same cards.
+ * Each draw uses one reading from the caller's quota (429 when none are left).
+ */
+
+import type { APIRoute } from 'astro';
+import {
+  apiJson,
+  apiLanguage,
+  apiPreflight,
+  apiQuotaExceeded,
+  drawSpread,
+  handleApi,
+  parseDrawOptions,
+  readJsonBody,
+} from '../../utils/publicApi';
+import { consumeQuota } from '../../utils/readingQuota';
+import { getQuotaKey, getQuotaStore } from '../../utils/quotaServer';
+
+export const prerender = false;
+
+export const POST: APIRoute = ({ request, url, cookies, clientAddress }) => handleApi(async () => {
+  const body = await readJsonBody(request);
+  const lang = apiLanguage(request, body);
+  const options = parseDrawOptions(body, lang);
+
+  const quota = await consumeQuota(getQuotaStore(), getQuotaKey(cookies, clientAddress));
+  if (!quota.allowed) return apiQuotaExceeded(quota);
+
+  return apiJson(drawSpread(options, lang, url.origin));
+});
+
+export const OPTIONS: APIRoute = () => apiPreflight();
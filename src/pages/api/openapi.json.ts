@@ -0,0 +1,14 @@
+/**
+ * OpenAPI document for the public JSON API
+ * GET /api/openapi.json
+ */
+
+import type { APIRoute } from 'astro';
+import { buildOpenApiDocument } from '../../utils/openApi';
+import { apiJson, apiPreflight } from '../../utils/publicApi';
+
+export const prerender = false;
+
+export const GET: APIRoute = ({ url }) => apiJson(buildOpenApiDocument(url.origin), 200, 3600);
+
+export const OPTIONS: APIRoute = () => apiPreflight();
@@ -0,0 +1,30 @@
+/**
+ * Reading quota API
+ * GET /api/quota — current quota for this session, or for this address
+ * without a session cookie: the same key the deal and draw routes use
+ * Readings are used up by starting a deal (POST /api/deal) or calling /api/draw.
+ */
+
+import type { APIRoute } from 'astro';
+import { checkQuota, type QuotaStatus } from '../../utils/readingQuota';
+import { getQuotaKey, getQuotaStore } from '../../utils/quotaServer';
+
+export const prerender = false;
+
+function quotaResponse(status: QuotaStatus, httpStatus = 200): Response {
+  return new Response(JSON.stringify(status), {
+    status: httpStatus,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      ...(status.resetsInHours !== null && !status.allowed
+        ? { 'Retry-After': String(status.resetsInHours * 60 * 60) }
+        : {}),
+    },
+  });
+}
+
+export const GET: APIRoute = async ({ cookies, clientAddress }) => {
+  const status = await checkQuota(getQuotaStore(), getQuotaKey(cookies, clientAddress));
+  return quotaResponse(status);
+};
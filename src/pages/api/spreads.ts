@@ -0,0 +1,17 @@
+/**
+ * Spread list API
+ * GET /api/spreads?lang=vi
+ */
+
+import type { APIRoute } from 'astro';
+import { loadSpreads } from '../../utils/loadData';
+import { apiJson, apiLanguage, apiPreflight, handleApi } from '../../utils/publicApi';
+
+export const prerender = false;
+
+export const GET: APIRoute = ({ request }) => handleApi(() => {
+  const spreads = loadSpreads(apiLanguage(request));
+  return apiJson({ count: spreads.length, spreads }, 200, 3600);
+});
+
+export const OPTIONS: APIRoute = () => apiPreflight();
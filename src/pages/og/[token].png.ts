@@ -0,0 +1,55 @@
+/**
+ * Open Graph image for a shared reading
+ * GET /og/{token}.png?lang=vi — the reading's cards as a 1200×630 PNG
+ * The image depends only on the URL: `lang` picks the language (never the
+ * cookie or Accept-Language), and any other query is redirected away.
+ */
+
+import type { APIRoute } from 'astro';
+import type { SupportedLanguage } from '../../types/i18n';
+import { loadSpreads, loadCards } from '../../utils/loadData';
+import { decodeReading } from '../../utils/readingCodec';
+import { renderReadingOgImage } from '../../utils/ogImage';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, url, redirect }) => {
+  const langParam = url.searchParams.get('lang');
+  const lang: SupportedLanguage = langParam === 'vi' ? 'vi' : 'en';
+  if (url.search !== `?lang=${lang}`) return redirect(`${url.pathname}?lang=${lang}`, 301);
+
+  const reading = decodeReading(params.token || '');
+  const spread = reading && loadSpreads(lang).find(s => s.id === reading.spreadId);
+  const cardsData = loadCards(lang);
+
+  if (!reading || !spread || reading.cards.length !== spread.cardCount || reading.cards.some(c => !cardsData[c.cardId])) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  // Card images are static assets, so fetch them from this site
+  const loadImage = async (path: string) => {
+    const response = await fetch(new URL(path, url.origin));
+    if (!response.ok) throw new Error(`Card image ${path}: ${response.status}`);
+    return Buffer.from(await response.arrayBuffer());
+  };
+
+  try {
+    const png = await renderReadingOgImage({
+      spread,
+      cards: reading.cards.map(c => ({ image: cardsData[c.cardId].image, reversed: c.reversed })),
+      question: reading.question,
+      siteName: 'Tarot by the Stars',
+    }, loadImage);
+
+    return new Response(new Uint8Array(png), {
+      headers: {
+        'Content-Type': 'image/png',
+        // The token and lang fix the content, so previews can be cached for a long time
+        'Cache-Control': 'public, max-age=604800, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering Open Graph image:', error);
+    return new Response('Could not render image', { status: 500 });
+  }
+};
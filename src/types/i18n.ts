@@ -32,7 +32,7 @@ export interface CommonTranslations {
     viewReading: string;
     newReading: string;
     share: string;
-    export: string;
+    print: string;
     startReading: string;
     backToHome: string;
   };
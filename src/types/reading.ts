@@ -3,7 +3,8 @@
  * Analyzes card combinations and generates cohesive narratives
  */
 
-import type { TarotCard, DrawnCard, SpreadPosition } from './tarot';
+import type { TarotCard, DrawnCard, SpreadPosition, CourtRank, Planet, ZodiacSign, YesNo } from './tarot';
+import type { Element } from '../utils/deckPool';
 
 /**
  * Types of relationships between cards
@@ -20,6 +21,27 @@ export type RelationshipType =
  */
 export type OverallEnergy = 'positive' | 'negative' | 'neutral' | 'mixed';
 
+/**
+ * How two elements treat each other in elemental dignities
+ */
+export type ElementalRelation =
+  | 'same'       // Fire & Fire — strengthen each other
+  | 'friendly'   // Fire & Air, Water & Earth — strengthen each other
+  | 'contrary'   // Fire & Water, Air & Earth — weaken each other
+  | 'neutral';   // Fire & Earth, Water & Air — little effect
+
+export type DignityEffect = 'strengthen' | 'weaken' | 'neutral';
+
+/**
+ * Elemental dignity between two neighbouring cards
+ */
+export interface ElementalDignity {
+  element1: Element;
+  element2: Element;
+  relation: ElementalRelation;
+  effect: DignityEffect;
+}
+
 /**
  * Interaction between two cards in a reading
  */
@@ -29,6 +51,8 @@ export interface CardInteraction {
   relationshipType: RelationshipType;
   strength: number; // 0-1, how strongly they interact
   interpretation?: string;
+  /** Elemental dignity — only for cards in neighbouring positions */
+  dignity?: ElementalDignity;
 }
 
 /**
@@ -43,6 +67,114 @@ export interface ReadingTheme {
   courtCardCount: number;
 }
 
+/**
+ * Cards sharing a rank (Ace to Ten) — three Fives put conflict at the centre
+ */
+export interface RepeatedRank {
+  number: number;
+  cards: TarotCard[];
+}
+
+/**
+ * Three or more consecutive numbers — pips like 4-5-6, or Majors next to each
+ * other on the Fool's journey
+ */
+export interface NumberSequence {
+  arcana: 'major' | 'minor';
+  numbers: number[];
+  cards: TarotCard[];
+}
+
+/**
+ * The Major Arcana card the reading's numbers reduce to
+ */
+export interface Quintessence {
+  /** Sum of every numbered card (court cards have no number) */
+  total: number;
+  /** `total` reduced by adding its digits until it is a Major (0-21) */
+  number: number;
+}
+
+/**
+ * Numerological patterns in the drawn cards
+ */
+export interface NumerologyFindings {
+  repeatedRanks: RepeatedRank[];
+  sequences: NumberSequence[];
+  quintessence: Quintessence | null;
+}
+
+/**
+ * Cards ruled by the same planet — three Saturn cards put limits and time in focus
+ */
+export interface SharedPlanet {
+  planet: Planet;
+  cards: TarotCard[];
+}
+
+/**
+ * Cards that fall in the same zodiac sign
+ */
+export interface SharedSign {
+  sign: ZodiacSign;
+  cards: TarotCard[];
+}
+
+/**
+ * Astrological patterns in the drawn cards
+ */
+export interface CorrespondenceFindings {
+  planets: SharedPlanet[];
+  signs: SharedSign[];
+}
+
+/**
+ * One card's say in a yes/no answer
+ */
+export interface YesNoVote {
+  drawnCard: DrawnCard;
+  /** The card's polarity, after any reversal */
+  polarity: YesNo;
+  /** Major Arcana count for more than Minors */
+  weight: number;
+}
+
+/**
+ * The answer a one- or three-card draw gives to a yes/no question
+ */
+export interface YesNoAnswer {
+  answer: YesNo;
+  /** Weighted average of the votes, from -1 (all no) to 1 (all yes) */
+  score: number;
+  /**
+   * How firmly the cards give this answer (0-1); for a maybe, how evenly they
+   * balance. A single card is never fully certain.
+   */
+  confidence: number;
+  votes: YesNoVote[];
+  /** Cards whose polarity matches the answer, heaviest first */
+  drivers: DrawnCard[];
+  /** Cards that point the opposite way (for a maybe, none) */
+  opposing: DrawnCard[];
+}
+
+/**
+ * Whether a court card stands for someone else, the querent, or could be either
+ */
+export type CourtRole = 'person' | 'self' | 'either';
+
+/**
+ * How a court card reads in its position
+ */
+export interface CourtReading {
+  rank: CourtRank;
+  /** The suit's element */
+  element: Element;
+  /** The rank's element within the suit — Fire of Water for the King of Cups */
+  subElement: Element;
+  role: CourtRole;
+}
+
 /**
  * A single position-aware narrative beat in the reading story
  */
@@ -53,6 +185,8 @@ export interface StoryBeat {
   narrative: string;
   /** Short connector phrase to lead into the next beat (null for last card) */
   connector: string | null;
+  /** Person or aspect of self, for court cards */
+  court?: CourtReading;
 }
 
 /**
@@ -63,6 +197,8 @@ export interface ReadingSynthesis {
   body: string[];         // Main interpretation paragraphs (meta-analysis)
   conclusion: string;     // Summary and final thoughts
   advice: string;         // Actionable guidance
+  numerology?: string;    // Repeated ranks, sequences and the quintessence, if any
+  astrology?: string;     // Planets and signs shared by several cards, if any
 }
 
 /**
@@ -74,6 +210,10 @@ export interface FullReadingAnalysis {
   supportingCards: DrawnCard[];
   challengingCards: DrawnCard[];
   outcomeInfluencers: DrawnCard[];
+  numerology: NumerologyFindings;
+  correspondences: CorrespondenceFindings;
+  /** Set in yes/no mode; the synthesis then explains this answer */
+  yesNo?: YesNoAnswer;
   synthesis: ReadingSynthesis;
   /** Position-aware story beats — the primary narrative */
   storyBeats: StoryBeat[];
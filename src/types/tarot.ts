@@ -2,6 +2,8 @@
  * TypeScript type definitions for Tarot card data
  */
 
+import type { Element } from '../utils/deckPool';
+
 export interface CardMeaning {
   short: string;
   detailed: string;
@@ -17,6 +19,45 @@ export interface CardRelationships {
   challenging_cards: string[];
 }
 
+export type CourtRank = 'page' | 'knight' | 'queen' | 'king';
+
+export type Planet = 'sun' | 'moon' | 'mercury' | 'venus' | 'mars' | 'jupiter' | 'saturn';
+
+export type ZodiacSign =
+  | 'aries' | 'taurus' | 'gemini' | 'cancer' | 'leo' | 'virgo'
+  | 'libra' | 'scorpio' | 'sagittarius' | 'capricorn' | 'aquarius' | 'pisces';
+
+export type HebrewLetter =
+  | 'aleph' | 'beth' | 'gimel' | 'daleth' | 'heh' | 'vav' | 'zayin' | 'cheth'
+  | 'teth' | 'yod' | 'kaph' | 'lamed' | 'mem' | 'nun' | 'samekh' | 'ayin'
+  | 'peh' | 'tzaddi' | 'qoph' | 'resh' | 'shin' | 'tav';
+
+export type YesNo = 'yes' | 'no' | 'maybe';
+
+/** Start and end of a decan, as inclusive MM-DD dates */
+export interface DecanDates {
+  start: string;
+  end: string;
+}
+
+/**
+ * Golden Dawn correspondences. Majors have a Hebrew letter, a path on the Tree
+ * of Life and a planet, sign or (for the three mother letters) just an element.
+ * Minors sit on a sephirah; pips Two to Ten also have the planet and sign of
+ * their decan.
+ */
+export interface CardCorrespondences {
+  element: Element;
+  planet?: Planet;
+  zodiac?: ZodiacSign;
+  hebrewLetter?: HebrewLetter;
+  /** Tree of Life path, 11-32 */
+  path?: number;
+  /** Sephirah on the Tree of Life, 1 (Kether) to 10 (Malkuth) */
+  sephirah?: number;
+  decan?: DecanDates;
+}
+
 export interface TarotCard {
   id: number;
   name: string;
@@ -24,6 +65,11 @@ export interface TarotCard {
   arcana: 'major' | 'minor';
   suit: 'wands' | 'cups' | 'swords' | 'pentacles' | null;
   number: number | null;
+  /** Court title, or the card's number for pips (1-10) and Majors (0-21) */
+  rank: CourtRank | number;
+  correspondences: CardCorrespondences;
+  /** Answer to a yes/no question when upright (reversals: see utils/yesNo.ts) */
+  yesNo: YesNo;
   keywords: string[];
   upright: CardMeaning;
   reversed: CardMeaning;
@@ -48,10 +94,17 @@ export interface TarotSpread {
   positions: SpreadPosition[];
 }
 
+export interface ClarifierCard {
+  card: TarotCard;
+  reversed: boolean;
+}
+
 export interface DrawnCard {
   card: TarotCard;
   position: number;
   reversed: boolean;
+  /** Extra card pulled to clarify this position */
+  clarifier?: ClarifierCard;
 }
 
 export interface Reading {
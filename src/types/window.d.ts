@@ -0,0 +1,28 @@
+/**
+ * Globals a page's define:vars script hands to its module scripts
+ */
+
+import type { ClarifierRef } from '../utils/clarifier';
+
+declare global {
+  interface Window {
+    /** Result page — what the "draw clarifier" buttons need */
+    __clarifierData: {
+      basePath: string;
+      clarifiers: ClarifierRef[];
+      /** Query parameter of the share link signature, dropped once a clarifier is added */
+      signatureParam: string;
+    };
+    /** Verify page — result strings and card names by ID */
+    __verifyData: {
+      strings: Record<'match' | 'mismatch' | 'cardsMismatch' | 'invalid' | 'unsupported'
+        | 'cardPosition' | 'cardWrong' | 'cardMissing' | 'reversed', string>;
+      cardNames: string[];
+    };
+    /** Home page — "continue last reading" and follow-up labels */
+    __lastReadingLabels: Record<'label_justNow' | 'label_minutesAgo' | 'label_hoursAgo' | 'label_daysAgo'
+      | 'label_followUpsDue', string>;
+  }
+}
+
+export {};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { getPoolCardIds } from './deckPool';
+import { startDeal, cutDeal, dealtCard, type DealOptions } from './deal';
+import { formatClarifiers, parseClarifiers, getClarifierDeck, nextClarifier } from './clarifier';
+
+const OPTIONS: DealOptions = {
+  spreadId: '5-card-deeper',
+  poolIds: getPoolCardIds({ mode: 'full' }),
+  policy: { mode: 'probability', percent: 50 },
+  ritual: { mode: 'quick' },
+};
+const SEED = 424242;
+
+describe('formatClarifiers / parseClarifiers', () => {
+  it('round-trips clarifiers in position order', () => {
+    const clarifiers = [
+      { position: 1, cardId: 45, reversed: false },
+      { position: 3, cardId: 7, reversed: true },
+    ];
+    expect(formatClarifiers(clarifiers)).toBe('1.45.0-3.7.1');
+    expect(parseClarifiers('3.7.1-1.45.0', 3, [0, 1, 2], 78)).toEqual(clarifiers);
+  });
+
+  it('drops malformed entries, positions off the spread, repeats and reading cards', () => {
+    expect(parseClarifiers('x-4.10.0-0.10.0-1.2.0-1.10.0-2.10.1-3.78.0-2.11.1', 3, [0, 1, 2], 78))
+      .toEqual([{ position: 1, cardId: 10, reversed: false }, { position: 2, cardId: 11, reversed: true }]);
+  });
+});
+
+describe('getClarifierDeck', () => {
+  it('uses the revealed deck when there is a proof', async () => {
+    const deal = await cutDeal(await startDeal({ ...OPTIONS, ritual: { mode: 'cut' } }, SEED), [2, 1, 0]);
+    expect(getClarifierDeck(OPTIONS, SEED, deal)).toBe(deal);
+  });
+
+  it('deals the seed again without one', async () => {
+    const deal = await startDeal(OPTIONS, SEED);
+    expect(getClarifierDeck(OPTIONS, SEED, null)).toMatchObject({ order: deal.order, reversed: deal.reversed });
+  });
+
+  it('shuffles the pool for readings without a seed', () => {
+    const deck = getClarifierDeck({ ...OPTIONS, poolIds: getPoolCardIds({ mode: 'majors' }) }, null, null);
+    expect([...deck.order].sort((a, b) => a - b)).toEqual(getPoolCardIds({ mode: 'majors' }));
+    expect(deck.reversed).toHaveLength(22);
+  });
+});
+
+describe('nextClarifier', () => {
+  it('pulls the top card left in the deck, the way up it lies', async () => {
+    const deal = await startDeal(OPTIONS, SEED);
+    const taken = [deal.order[0], deal.order[1], deal.order[3]];
+    expect(nextClarifier(deal, taken, 0)).toEqual({ position: 1, ...dealtCard(deal, 2, 0) });
+  });
+
+  it('pulls the same card every time for a seeded reading', () => {
+    const taken = [3, 14, 15, 9, 26];
+    const first = nextClarifier(getClarifierDeck(OPTIONS, SEED, null), taken, 4);
+    expect(nextClarifier(getClarifierDeck(OPTIONS, SEED, null), taken, 4)).toEqual(first);
+    expect(taken).not.toContain(first!.cardId);
+  });
+
+  it('reads a clarifier upright outside challenge positions under the challenge policy', () => {
+    const deck = { spreadId: '5-card-deeper', policy: { mode: 'challenge' } as const, order: [4, 5, 6], reversed: [true, true, true] };
+    expect(nextClarifier(deck, [4], 0)).toEqual({ position: 1, cardId: 5, reversed: false });
+    expect(nextClarifier(deck, [4], 1)).toEqual({ position: 2, cardId: 5, reversed: true });
+  });
+
+  it('returns null once the deck is used up', () => {
+    const deck = { spreadId: '1-card', policy: { mode: 'upright' } as const, order: [1, 2], reversed: [false, false] };
+    expect(nextClarifier(deck, [1, 2], 0)).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Clarifier cards — an extra card pulled from the remaining deck to shed
+ * light on one position of a reading.
+ * The clarifier is the top card left in the deck, so a seeded reading always
+ * pulls the same ones (see getClarifierDeck).
+ *
+ * Encoded as an optional segment after the reading in the result path:
+ *   /result/{token}/2.45.1-3.7.0  (old form: /result/3-card-basic/1-2-3/010/2.45.1-3.7.0)
+ * Each entry is {position}.{cardId}.{reversed}, one per position at most.
+ */
+
+import { shuffleDeck } from './rng';
+import { orientDeck } from './reversalPolicy';
+import { shuffleForDeal, dealtCard, type DealOptions, type DealtDeck } from './deal';
+
+export interface ClarifierRef {
+  /** 1-based position the clarifier belongs to */
+  position: number;
+  cardId: number;
+  reversed: boolean;
+}
+
+/**
+ * Serialize clarifiers for the result path
+ */
+export function formatClarifiers(clarifiers: ClarifierRef[]): string {
+  return clarifiers
+    .map(c => `${c.position}.${c.cardId}.${c.reversed ? 1 : 0}`)
+    .join('-');
+}
+
+/**
+ * Parse clarifiers from the result path, dropping malformed entries,
+ * entries outside the spread, and repeats of a position or card
+ */
+export function parseClarifiers(
+  segment: string | undefined,
+  cardCount: number,
+  takenCardIds: number[],
+  totalCards: number
+): ClarifierRef[] {
+  if (!segment) return [];
+
+  const taken = new Set(takenCardIds);
+  const positions = new Set<number>();
+  const clarifiers: ClarifierRef[] = [];
+
+  for (const entry of segment.split('-')) {
+    const match = entry.match(/^(\d+)\.(\d+)\.([01])$/);
+    if (!match) continue;
+    const position = parseInt(match[1], 10);
+    const cardId = parseInt(match[2], 10);
+    if (position < 1 || position > cardCount || positions.has(position)) continue;
+    if (cardId >= totalCards || taken.has(cardId)) continue;
+
+    positions.add(position);
+    taken.add(cardId);
+    clarifiers.push({ position, cardId, reversed: match[3] === '1' });
+  }
+
+  return clarifiers.sort((a, b) => a.position - b.position);
+}
+
+/**
+ * The deck clarifiers come from: the revealed deck of a draw proof, else the
+ * deck the reading's seed deals, else (readings without a seed) a fresh shuffle
+ */
+export function getClarifierDeck(options: DealOptions, seed: number | null, proof: DealtDeck | null): DealtDeck {
+  if (proof) return proof;
+  const { spreadId, policy } = options;
+  if (seed !== null) return { ...shuffleForDeal(options, seed), spreadId, policy };
+  const order = shuffleDeck(options.poolIds);
+  return { order, reversed: orientDeck(policy, order), spreadId, policy };
+}
+
+/**
+ * The clarifier for a position (0-based): the top card left in the deck, read
+ * the way up it lies. Null once the deck is used up.
+ */
+export function nextClarifier(deck: DealtDeck, takenCardIds: number[], positionIndex: number): ClarifierRef | null {
+  const taken = new Set(takenCardIds);
+  const index = deck.order.findIndex(cardId => !taken.has(cardId));
+  if (index === -1) return null;
+  return { position: positionIndex + 1, ...dealtCard(deck, index, positionIndex) };
+}
@@ -0,0 +1,90 @@
+/**
+ * Correspondences — the astrology and Kabbalah behind each card, following the
+ * Golden Dawn
+ * Cards share a planet when it rules them: directly for planetary Majors, as
+ * the traditional ruler of their sign for zodiacal Majors, and as the decan
+ * ruler for pips.
+ */
+
+import type { DrawnCard, HebrewLetter, Planet, TarotCard, ZodiacSign } from '../types/tarot';
+import type { CorrespondenceFindings, SharedPlanet, SharedSign } from '../types/reading';
+
+export const PLANETS: Planet[] = ['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn'];
+
+export const ZODIAC_SIGNS: ZodiacSign[] = [
+  'aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo',
+  'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces',
+];
+
+export const PLANET_SYMBOLS: Record<Planet, string> = {
+  sun: '☉', moon: '☽', mercury: '☿', venus: '♀', mars: '♂', jupiter: '♃', saturn: '♄',
+};
+
+export const ZODIAC_SYMBOLS: Record<ZodiacSign, string> = {
+  aries: '♈', taurus: '♉', gemini: '♊', cancer: '♋', leo: '♌', virgo: '♍',
+  libra: '♎', scorpio: '♏', sagittarius: '♐', capricorn: '♑', aquarius: '♒', pisces: '♓',
+};
+
+export const HEBREW_LETTERS: Record<HebrewLetter, string> = {
+  aleph: 'א', beth: 'ב', gimel: 'ג', daleth: 'ד', heh: 'ה', vav: 'ו', zayin: 'ז', cheth: 'ח',
+  teth: 'ט', yod: 'י', kaph: 'כ', lamed: 'ל', mem: 'מ', nun: 'נ', samekh: 'ס', ayin: 'ע',
+  peh: 'פ', tzaddi: 'צ', qoph: 'ק', resh: 'ר', shin: 'ש', tav: 'ת',
+};
+
+/** Sephiroth of the Tree of Life, from 1 (Kether) to 10 (Malkuth) */
+export const SEPHIROTH = [
+  'Kether', 'Chokmah', 'Binah', 'Chesed', 'Geburah',
+  'Tiphareth', 'Netzach', 'Hod', 'Yesod', 'Malkuth',
+];
+
+/** Traditional (pre-modern) ruler of each sign */
+const SIGN_RULERS: Record<ZodiacSign, Planet> = {
+  aries: 'mars',
+  taurus: 'venus',
+  gemini: 'mercury',
+  cancer: 'moon',
+  leo: 'sun',
+  virgo: 'mercury',
+  libra: 'venus',
+  scorpio: 'mars',
+  sagittarius: 'jupiter',
+  capricorn: 'saturn',
+  aquarius: 'saturn',
+  pisces: 'jupiter',
+};
+
+/**
+ * The planet that rules a card, or null for Aces, courts and the elemental Majors
+ */
+export function getRulingPlanet(card: TarotCard): Planet | null {
+  const { planet, zodiac } = card.correspondences;
+  if (planet) return planet;
+  return zodiac ? SIGN_RULERS[zodiac] : null;
+}
+
+/**
+ * Group cards by a key, keeping only keys shared by more than one card,
+ * most shared first
+ */
+function findShared<K extends string>(cards: TarotCard[], keyOf: (card: TarotCard) => K | null | undefined, order: K[]) {
+  const byKey = new Map<K, TarotCard[]>();
+  for (const card of cards) {
+    const key = keyOf(card);
+    if (key) byKey.set(key, [...(byKey.get(key) ?? []), card]);
+  }
+  return [...byKey.entries()]
+    .filter(([, shared]) => shared.length > 1)
+    .sort(([a, x], [b, y]) => y.length - x.length || order.indexOf(a) - order.indexOf(b));
+}
+
+/**
+ * Find the planets and signs that several drawn cards share
+ */
+export function findCorrespondences(drawn: DrawnCard[]): CorrespondenceFindings {
+  const cards = drawn.map(dc => dc.card);
+  const planets: SharedPlanet[] = findShared(cards, getRulingPlanet, PLANETS)
+    .map(([planet, shared]) => ({ planet, cards: shared }));
+  const signs: SharedSign[] = findShared(cards, card => card.correspondences.zodiac, ZODIAC_SIGNS)
+    .map(([sign, shared]) => ({ sign, cards: shared }));
+  return { planets, signs };
+}
@@ -0,0 +1,56 @@
+/**
+ * Court cards — the sixteen Pages, Knights, Queens and Kings
+ * Each reads as a person in the querent's life or as an aspect of the querent,
+ * depending on the position it falls in, and carries its rank's sub-element
+ * within its suit's element (the King of Cups is Fire of Water).
+ */
+
+import type { CourtRank, TarotCard } from '../types/tarot';
+import type { CourtReading, CourtRole } from '../types/reading';
+import spreadsData from '../data/spreads.json';
+import { SUIT_ELEMENTS, type Element } from './deckPool';
+
+/** Sub-element of each court rank, as usually read with the Rider–Waite courts */
+export const COURT_SUB_ELEMENTS: Record<CourtRank, Element> = {
+  page: 'earth',
+  knight: 'air',
+  queen: 'water',
+  king: 'fire',
+};
+
+// Matched against the English position names in data/spreads.json, so a court
+// card reads the same way in every language. Person words are checked first;
+// positions matching neither could be either.
+const PERSON_WORDS = ['person', 'relationships', 'external', 'outer', 'aid', 'support'];
+const SELF_WORDS = ['self', 'querent', 'inner', 'internal', 'ego', 'mask', 'child', 'parent', 'your core', 'mindset', 'where am i'];
+
+/**
+ * Whether a card is a court card
+ */
+export function isCourtCard(card: TarotCard): card is TarotCard & { rank: CourtRank } {
+  return typeof card.rank === 'string';
+}
+
+/**
+ * Whether a court card in this position is someone else, the querent, or either
+ */
+export function getCourtRole(spreadId: string, positionIndex: number): CourtRole {
+  const spread = spreadsData.find(s => s.id === spreadId);
+  const name = spread?.positions[positionIndex]?.name.toLowerCase() ?? '';
+  if (PERSON_WORDS.some(word => name.includes(word))) return 'person';
+  if (SELF_WORDS.some(word => name.includes(word))) return 'self';
+  return 'either';
+}
+
+/**
+ * Read a court card in a spread position, or null for other cards
+ */
+export function readCourtCard(card: TarotCard, spreadId: string, positionIndex: number): CourtReading | null {
+  if (!isCourtCard(card) || !card.suit) return null;
+  return {
+    rank: card.rank,
+    element: SUIT_ELEMENTS[card.suit],
+    subElement: COURT_SUB_ELEMENTS[card.rank],
+    role: getCourtRole(spreadId, positionIndex),
+  };
+}
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { APIContext, APIRoute } from 'astro';
+import { POST as postDeal } from '../pages/api/deal';
+import { POST as postShuffle } from '../pages/api/deal/shuffle';
+import { POST as postSign } from '../pages/api/deal/sign';
+import { createSeededSource, parseSeed } from './rng';
+import { prepareDeck, cutIntoPiles, restackPiles } from './deckRitual';
+import { orientDeck } from './reversalPolicy';
+import { getPoolCardIds } from './deckPool';
+import { formatDrawProof, verifyCommitment, type DrawProof } from './drawProof';
+import { buildResultPath } from './readingCodec';
+import { verifyReadingSignature } from './shareSignature';
+import { READING_LIMIT } from './readingQuota';
+import { shuffleForDeal, startDeal, cutDeal, dealtCard, isDealtFromSeed, type Deal, type DealOptions } from './deal';
+
+const OPTIONS: DealOptions = {
+  spreadId: '3-card-basic',
+  poolIds: getPoolCardIds({ mode: 'full' }),
+  policy: { mode: 'probability', percent: 50 },
+  ritual: { mode: 'quick' },
+};
+const SEED = 12345;
+const SECRET = 'a-test-secret-of-some-length';
+
+const proofOf = (deal: Deal, picks: number[]): DrawProof => ({ ...deal, picks });
+
+describe('shuffleForDeal', () => {
+  it('shuffles and orients the deck the same way the wizard always has', () => {
+    const source = createSeededSource(SEED);
+    const order = prepareDeck(OPTIONS.poolIds, OPTIONS.ritual, source);
+    expect(shuffleForDeal(OPTIONS, SEED)).toEqual({
+      order,
+      reversed: orientDeck(OPTIONS.policy, order, source),
+      piles: null,
+    });
+  });
+
+  it('splits the deck into piles for the cut ritual', () => {
+    const ritual = { mode: 'cut' } as const;
+    const source = createSeededSource(SEED);
+    const order = prepareDeck(OPTIONS.poolIds, ritual, source);
+    orientDeck(OPTIONS.policy, order, source);
+    expect(shuffleForDeal({ ...OPTIONS, ritual }, SEED).piles).toEqual(cutIntoPiles(order, 3, source));
+  });
+});
+
+describe('startDeal / cutDeal', () => {
+  it('commits to the deck straight away', async () => {
+    const deal = await startDeal(OPTIONS, SEED, 'ticket');
+    expect(deal).toMatchObject({ seed: SEED, ticket: 'ticket', ...shuffleForDeal(OPTIONS, SEED) });
+    expect(await verifyCommitment(deal, deal.commitment!)).toBe(true);
+  });
+
+  it('waits for the cut, then keeps each card the way up it was lying', async () => {
+    const deal = await startDeal({ ...OPTIONS, ritual: { mode: 'cut' } }, SEED);
+    expect(deal.commitment).toBeNull();
+    const lying = new Map(deal.order.map((cardId, i) => [cardId, deal.reversed[i]]));
+
+    const cut = await cutDeal(deal, [2, 0, 1]);
+    expect(cut.piles).toBeNull();
+    expect(cut.order).toEqual(restackPiles(deal.piles!, [2, 0, 1]));
+    expect(cut.reversed).toEqual(cut.order.map(cardId => lying.get(cardId)));
+    expect(await verifyCommitment(cut, cut.commitment!)).toBe(true);
+  });
+
+  it('reads cards upright outside challenge positions under the challenge policy', async () => {
+    const deal = await startDeal({ ...OPTIONS, spreadId: '5-card-deeper', policy: { mode: 'challenge' } }, SEED);
+    deal.reversed = deal.reversed.map(() => true);
+    expect([0, 1, 2].map(position => dealtCard(deal, 7, position).reversed)).toEqual([false, true, false]);
+    expect(dealtCard(deal, 7, 0).cardId).toBe(deal.order[7]);
+  });
+});
+
+describe('isDealtFromSeed', () => {
+  it('accepts the deck the seed deals', async () => {
+    const deal = await startDeal(OPTIONS, SEED);
+    expect(isDealtFromSeed(proofOf(deal, [4, 0, 9]), OPTIONS, SEED)).toBe(true);
+  });
+
+  it('accepts the cut restacked in any order', async () => {
+    const cutOptions: DealOptions = { ...OPTIONS, ritual: { mode: 'cut' } };
+    const deal = await startDeal(cutOptions, SEED);
+    for (const order of [[0, 1, 2], [1, 2, 0], [2, 1, 0]]) {
+      expect(isDealtFromSeed(proofOf(await cutDeal(deal, order), [0, 1, 2]), cutOptions, SEED)).toBe(true);
+    }
+  });
+
+  it('rejects another seed, options or deck', async () => {
+    const deal = await startDeal(OPTIONS, SEED);
+    const proof = proofOf(deal, [0, 1, 2]);
+    expect(isDealtFromSeed(proof, OPTIONS, SEED + 1)).toBe(false);
+    expect(isDealtFromSeed(proof, { ...OPTIONS, ritual: { mode: 'riffle', times: 7 } }, SEED)).toBe(false);
+    expect(isDealtFromSeed(proof, { ...OPTIONS, policy: { mode: 'upright' } }, SEED)).toBe(false);
+    expect(isDealtFromSeed({ ...proof, spreadId: '1-card' }, OPTIONS, SEED)).toBe(false);
+    expect(isDealtFromSeed({ ...proof, order: [deal.order[1], deal.order[0], ...deal.order.slice(2)] }, OPTIONS, SEED)).toBe(false);
+    expect(isDealtFromSeed({ ...proof, reversed: deal.reversed.map(r => !r) }, OPTIONS, SEED)).toBe(false);
+  });
+});
+
+// ── Deal API ─────────────────────────────────────────────────────────────────
+
+let lastAddress = 0;
+
+async function call(route: APIRoute, path: string, body: unknown, clientAddress = `10.1.0.${++lastAddress}`) {
+  const request = new Request(`https://tarot.test${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const context = {
+    request,
+    url: new URL(request.url),
+    cookies: { get: () => undefined, set: () => {} },
+    clientAddress,
+  } as unknown as APIContext;
+  const response = await route(context);
+  return { status: response.status, body: await response.json() };
+}
+
+// Deal a reading in the wizard's way from what POST /api/deal returned
+async function dealReading(dealt: { seed: string; ticket?: string }, picks = [5, 0, 60]) {
+  const deal = await startDeal(OPTIONS, parseSeed(dealt.seed)!, dealt.ticket);
+  const reading = {
+    spreadId: OPTIONS.spreadId,
+    cards: picks.map((index, position) => dealtCard(deal, index, position)),
+    seed: deal.seed,
+  };
+  const query = new URLSearchParams({ commit: deal.commitment!, proof: formatDrawProof(proofOf(deal, picks)) });
+  return { deal, reading, path: `${buildResultPath(reading)}?${query}` };
+}
+
+describe('deal API', () => {
+  beforeEach(() => { vi.stubEnv('SHARE_LINK_SECRET', SECRET); });
+  afterEach(() => { vi.unstubAllEnvs(); });
+
+  it('hands out a ticketed seed and uses one reading', async () => {
+    const { status, body } = await call(postDeal, '/api/deal', { spreadId: '3-card-basic' });
+    expect(status).toBe(200);
+    expect(parseSeed(body.seed)).not.toBeNull();
+    expect(body.ticket).toEqual(expect.any(String));
+    expect(body.quota).toMatchObject({ allowed: true, remaining: READING_LIMIT - 1 });
+  });
+
+  it('replays a given seed without a ticket', async () => {
+    const { body } = await call(postDeal, '/api/deal', { spreadId: '3-card-basic', seed: 'abc' });
+    expect(body.seed).toBe('abc');
+    expect(body.ticket).toBeUndefined();
+  });
+
+  it('answers 429 once the readings are used up', async () => {
+    const address = '192.0.2.10';
+    for (let i = 0; i < READING_LIMIT; i++) {
+      expect((await call(postDeal, '/api/deal', { spreadId: '1-card' }, address)).status).toBe(200);
+    }
+    expect((await call(postDeal, '/api/deal', { spreadId: '1-card' }, address)).status).toBe(429);
+  });
+
+  it('signs a reading dealt from the ticketed seed', async () => {
+    const { body: dealt } = await call(postDeal, '/api/deal', { spreadId: '3-card-basic' });
+    const { reading, path } = await dealReading(dealt);
+    const { status, body } = await call(postSign, '/api/deal/sign', { path, ticket: dealt.ticket });
+    expect(status).toBe(200);
+    expect(verifyReadingSignature(reading, body.sig, SECRET)).toBe(true);
+  });
+
+  it('refuses readings that were not dealt from the ticketed seed', async () => {
+    const { body: dealt } = await call(postDeal, '/api/deal', { spreadId: '3-card-basic' });
+    const { deal, path } = await dealReading(dealt);
+    const { path: otherSeed } = await dealReading({ seed: (deal.seed + 1).toString(36) });
+
+    expect((await call(postSign, '/api/deal/sign', { path: otherSeed, ticket: dealt.ticket })).status).toBe(403);
+    expect((await call(postSign, '/api/deal/sign', { path, ticket: 'nope' })).status).toBe(403);
+    expect((await call(postSign, '/api/deal/sign', { path: `${path}&rev=upright`, ticket: dealt.ticket })).status).toBe(403);
+    expect((await call(postSign, '/api/deal/sign', { path: path.split('?')[0], ticket: dealt.ticket })).status).toBe(403);
+    expect((await call(postSign, '/api/deal/sign', { path: '/cards', ticket: dealt.ticket })).status).toBe(400);
+  });
+
+  it('reshuffles a ticketed seed into a fresh one that can still be signed', async () => {
+    const { body: dealt } = await call(postDeal, '/api/deal', { spreadId: '3-card-basic' });
+    const { status, body: next } = await call(postShuffle, '/api/deal/shuffle', { spreadId: '3-card-basic', ...dealt });
+    expect(status).toBe(200);
+    expect(next.seed).not.toBe(dealt.seed);
+
+    const { path } = await dealReading(next);
+    expect((await call(postSign, '/api/deal/sign', { path, ticket: next.ticket })).status).toBe(200);
+  });
+
+  it('only reshuffles with a valid ticket', async () => {
+    const { body: dealt } = await call(postDeal, '/api/deal', { spreadId: '3-card-basic' });
+    for (const request of [
+      { spreadId: '3-card-basic', seed: dealt.seed },
+      { spreadId: '3-card-basic', seed: dealt.seed, ticket: 'nope' },
+      { spreadId: '3-card-basic', seed: '1', ticket: dealt.ticket },
+      { spreadId: '3-card-basic', seed: dealt.seed, ticket: dealt.ticket, pool: 'majors' },
+    ]) {
+      expect((await call(postShuffle, '/api/deal/shuffle', request)).status).toBe(403);
+    }
+  });
+
+  it('issues no tickets and signs nothing without a secret', async () => {
+    vi.stubEnv('SHARE_LINK_SECRET', '');
+    const { body: dealt } = await call(postDeal, '/api/deal', { spreadId: '3-card-basic' });
+    expect(dealt.ticket).toBeUndefined();
+    const { path } = await dealReading(dealt);
+    expect((await call(postSign, '/api/deal/sign', { path, ticket: 'x' })).status).toBe(503);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Dealing a reading from a seed — shared by the wizard and the server
+ * The wizard shuffles, cuts and deals in the browser. Starting a reading asks
+ * the server for the seed (POST /api/deal), which is where the reading quota
+ * is spent. With SHARE_LINK_SECRET set the seed comes with a ticket, and the
+ * server later signs the finished reading only if its draw proof checks out
+ * against that seed (see shareSignature.ts and /api/deal/sign).
+ *
+ * Nothing is kept on the server between requests, so any instance can answer
+ * any of them.
+ */
+
+import { createSeededSource } from './rng';
+import { prepareDeck, cutIntoPiles, restackPiles, CUT_PILE_COUNT, type ShuffleRitual } from './deckRitual';
+import { orientDeck, readsReversed, formatReversalPolicy, type ReversalPolicy } from './reversalPolicy';
+import { createNonce, computeCommitment, type CommittedDeck, type DrawProof } from './drawProof';
+
+/**
+ * What the reader chose before the deal
+ */
+export interface DealOptions {
+  spreadId: string;
+  /** Card IDs the deck is made from (see deckPool.ts) */
+  poolIds: number[];
+  policy: ReversalPolicy;
+  ritual: ShuffleRitual;
+}
+
+/**
+ * A deck straight from the seed: order (card IDs, top to bottom), which way
+ * up each card lies, and for the cut ritual the piles waiting to be restacked
+ */
+export interface ShuffledDeck {
+  order: number[];
+  reversed: boolean[];
+  piles: number[][] | null;
+}
+
+/**
+ * A deal in progress in the wizard
+ */
+export interface Deal extends CommittedDeck {
+  seed: number;
+  /** Server ticket for the seed; absent for replays and when signing is off */
+  ticket?: string;
+  /** Cut ritual: piles waiting to be restacked (null once the deck is final) */
+  piles: number[][] | null;
+  /** Hash of the final deck (see drawProof.ts), null until it is final */
+  commitment: string | null;
+}
+
+/**
+ * What dealing a card needs to know about a deck
+ */
+export type DealtDeck = Pick<Deal, 'spreadId' | 'policy' | 'order' | 'reversed'>;
+
+/**
+ * A seed to deal from, as handed out by POST /api/deal
+ */
+export interface DealSeed {
+  /** base36 (see rng.ts) */
+  seed: string;
+  ticket?: string;
+}
+
+/**
+ * Shuffle, orient and (for the cut ritual) split the deck. The order of
+ * these steps is part of what a seed means: changing it changes old replays.
+ */
+export function shuffleForDeal(options: DealOptions, seed: number): ShuffledDeck {
+  const source = createSeededSource(seed);
+  const order = prepareDeck(options.poolIds, options.ritual, source);
+  const reversed = orientDeck(options.policy, order, source);
+  const piles = options.ritual.mode === 'cut' && order.length >= CUT_PILE_COUNT
+    ? cutIntoPiles(order, CUT_PILE_COUNT, source)
+    : null;
+  return { order, reversed, piles };
+}
+
+// Restack the piles in `pileOrder` (pile indexes, top to bottom). Cards keep
+// the way up they were lying.
+function restackDeck(deck: ShuffledDeck, pileOrder: number[]): Pick<ShuffledDeck, 'order' | 'reversed'> {
+  const lying = new Map(deck.order.map((cardId, index) => [cardId, deck.reversed[index]]));
+  const order = restackPiles(deck.piles ?? [deck.order], pileOrder);
+  return { order, reversed: order.map(cardId => lying.get(cardId) === true) };
+}
+
+async function commitTo(deck: CommittedDeck): Promise<string | null> {
+  try {
+    return await computeCommitment(deck);
+  } catch {
+    return null; // Web Crypto unavailable (insecure context) — draw without a proof
+  }
+}
+
+/**
+ * Shuffle a deck from a seed. The commitment is made once the deck is final.
+ */
+export async function startDeal(options: DealOptions, seed: number, ticket?: string): Promise<Deal> {
+  const deck = shuffleForDeal(options, seed);
+  const deal: Deal = {
+    spreadId: options.spreadId,
+    policy: options.policy,
+    nonce: createNonce(),
+    seed,
+    ticket,
+    ...deck,
+    commitment: null,
+  };
+  if (!deal.piles) deal.commitment = await commitTo(deal);
+  return deal;
+}
+
+/**
+ * Cut ritual: restack the piles. `pileOrder` lists pile indexes from top to bottom.
+ */
+export async function cutDeal(deal: Deal, pileOrder: number[]): Promise<Deal> {
+  const cut: Deal = { ...deal, ...restackDeck(deal, pileOrder), piles: null };
+  cut.commitment = await commitTo(cut);
+  return cut;
+}
+
+/**
+ * The card at a deck position (0-based), drawn into a spread position (0-based)
+ */
+export function dealtCard(deal: DealtDeck, index: number, positionIndex: number): { cardId: number; reversed: boolean } {
+  return {
+    cardId: deal.order[index],
+    reversed: readsReversed(deal.policy, deal.reversed[index], deal.spreadId, positionIndex),
+  };
+}
+
+// Every order of `count` piles
+function pileOrders(count: number): number[][] {
+  if (count === 0) return [[]];
+  return pileOrders(count - 1).flatMap(order =>
+    Array.from({ length: count }, (_, at) => [...order.slice(0, at), count - 1, ...order.slice(at)])
+  );
+}
+
+const sameItems = <T>(a: T[], b: T[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+/**
+ * Whether a proof's deck is the one `seed` deals with these options — for the
+ * cut ritual, after the piles were restacked in any order
+ */
+export function isDealtFromSeed(proof: DrawProof, options: DealOptions, seed: number): boolean {
+  if (proof.spreadId !== options.spreadId) return false;
+  if (formatReversalPolicy(proof.policy) !== formatReversalPolicy(options.policy)) return false;
+  const deck = shuffleForDeal(options, seed);
+  const finals = deck.piles ? pileOrders(deck.piles.length).map(order => restackDeck(deck, order)) : [deck];
+  return finals.some(final => sameItems(final.order, proof.order) && sameItems(final.reversed, proof.reversed));
+}
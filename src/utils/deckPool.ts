@@ -0,0 +1,100 @@
+/**
+ * Deck pools — which cards a reading draws from
+ * Chosen per reading in the wizard and carried in the result URL as ?pool=
+ */
+
+import cardsData from '../data/cards.json';
+
+export type Suit = 'wands' | 'cups' | 'swords' | 'pentacles';
+
+export const SUITS: Suit[] = ['wands', 'cups', 'swords', 'pentacles'];
+
+export type Element = 'fire' | 'water' | 'air' | 'earth';
+
+/** Classical element of each Minor Arcana suit */
+export const SUIT_ELEMENTS: Record<Suit, Element> = {
+  wands: 'fire',
+  cups: 'water',
+  swords: 'air',
+  pentacles: 'earth',
+};
+
+export type DeckPool =
+  | { mode: 'full' }                            // All 78 cards
+  | { mode: 'majors' }                          // The 22 Major Arcana
+  | { mode: 'suit'; suit: Suit }                // One suit of 14 cards
+  | { mode: 'custom'; cardIds: number[] };      // A user-picked set
+
+export type DeckPoolMode = DeckPool['mode'];
+
+export const DEFAULT_DECK_POOL: DeckPool = { mode: 'full' };
+
+const TOTAL_CARDS = cardsData.length;
+
+/**
+ * Get the card IDs in a pool, in ascending order
+ */
+export function getPoolCardIds(pool: DeckPool): number[] {
+  switch (pool.mode) {
+    case 'full':
+      return cardsData.map(c => c.id);
+    case 'majors':
+      return cardsData.filter(c => c.arcana === 'major').map(c => c.id);
+    case 'suit':
+      return cardsData.filter(c => c.suit === pool.suit).map(c => c.id);
+    case 'custom':
+      return [...new Set(pool.cardIds)]
+        .filter(id => Number.isInteger(id) && id >= 0 && id < TOTAL_CARDS)
+        .sort((a, b) => a - b);
+  }
+}
+
+/**
+ * Share of Major Arcana in a pool (0-1). A full deck is 22/78.
+ */
+export function getPoolMajorShare(pool: DeckPool): number {
+  const ids = getPoolCardIds(pool);
+  if (ids.length === 0) return 0;
+  return ids.filter(id => cardsData[id].arcana === 'major').length / ids.length;
+}
+
+/**
+ * Check whether every card ID belongs to the pool
+ */
+export function poolContainsAll(pool: DeckPool, cardIds: number[]): boolean {
+  const ids = new Set(getPoolCardIds(pool));
+  return cardIds.every(id => ids.has(id));
+}
+
+/**
+ * Serialize a pool for the URL. Returns null for the full deck.
+ * Formats: "majors", "cups", "c0.5.12.40"
+ */
+export function formatDeckPool(pool: DeckPool): string | null {
+  switch (pool.mode) {
+    case 'full':
+      return null;
+    case 'majors':
+      return 'majors';
+    case 'suit':
+      return pool.suit;
+    case 'custom':
+      return `c${getPoolCardIds(pool).join('.')}`;
+  }
+}
+
+/**
+ * Parse a pool from a URL value, falling back to the full deck
+ */
+export function parseDeckPool(value: string | null | undefined): DeckPool {
+  if (!value) return DEFAULT_DECK_POOL;
+  if (value === 'majors') return { mode: 'majors' };
+  if ((SUITS as string[]).includes(value)) return { mode: 'suit', suit: value as Suit };
+
+  const match = value.match(/^c(\d+(?:\.\d+)*)$/);
+  if (match) {
+    const cardIds = getPoolCardIds({ mode: 'custom', cardIds: match[1].split('.').map(Number) });
+    if (cardIds.length > 0) return { mode: 'custom', cardIds };
+  }
+  return DEFAULT_DECK_POOL;
+}
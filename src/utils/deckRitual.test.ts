@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededSource } from './rng';
+import { getPoolCardIds } from './deckPool';
+import {
+  prepareDeck,
+  riffleShuffle,
+  overhandShuffle,
+  cutIntoPiles,
+  restackPiles,
+  indexAtNumber,
+  formatShuffleRitual,
+  parseShuffleRitual,
+  type ShuffleRitual,
+} from './deckRitual';
+
+const FULL_DECK = getPoolCardIds({ mode: 'full' });
+const MAJOR_SHARE = 22 / 78;
+
+describe('prepareDeck', () => {
+  const rituals: ShuffleRitual[] = [
+    { mode: 'quick' },
+    { mode: 'riffle', times: 1 },
+    { mode: 'riffle', times: 7 },
+    { mode: 'overhand', times: 5 },
+    { mode: 'cut' },
+    { mode: 'pick' },
+  ];
+
+  for (const ritual of rituals) {
+    describe(formatShuffleRitual(ritual) ?? 'quick', () => {
+      it('returns a permutation of the pool', () => {
+        const deck = prepareDeck(FULL_DECK, ritual, createSeededSource(1));
+        expect([...deck].sort((a, b) => a - b)).toEqual(FULL_DECK);
+      });
+
+      it('puts a Major Arcana card on top about as often as the deck holds them', () => {
+        const source = createSeededSource(5000);
+        const runs = 5000;
+        let majorsOnTop = 0;
+        let topIdTotal = 0;
+        for (let n = 0; n < runs; n++) {
+          const top = prepareDeck(FULL_DECK, ritual, source)[0];
+          if (top < 22) majorsOnTop++;
+          topIdTotal += top;
+        }
+        // ±4 standard deviations of a fair draw
+        const spread = 4 * Math.sqrt(MAJOR_SHARE * (1 - MAJOR_SHARE) / runs);
+        expect(Math.abs(majorsOnTop / runs - MAJOR_SHARE)).toBeLessThan(spread);
+        expect(Math.abs(topIdTotal / runs - 38.5)).toBeLessThan(2);
+      });
+    });
+  }
+
+  it('is reproducible from a seed', () => {
+    const ritual: ShuffleRitual = { mode: 'riffle', times: 3 };
+    expect(prepareDeck(FULL_DECK, ritual, createSeededSource(9)))
+      .toEqual(prepareDeck(FULL_DECK, ritual, createSeededSource(9)));
+  });
+});
+
+describe('single passes', () => {
+  it('keep every card', () => {
+    const source = createSeededSource(2);
+    for (const shuffle of [riffleShuffle, overhandShuffle]) {
+      expect([...shuffle(FULL_DECK, source)].sort((a, b) => a - b)).toEqual(FULL_DECK);
+    }
+  });
+});
+
+describe('cutIntoPiles / restackPiles', () => {
+  it('cuts into three non-empty piles that restack to the same cards', () => {
+    const piles = cutIntoPiles(FULL_DECK, 3, createSeededSource(4));
+    expect(piles).toHaveLength(3);
+    expect(piles.every(pile => pile.length > 0)).toBe(true);
+    expect(restackPiles(piles, [0, 1, 2])).toEqual(FULL_DECK);
+    expect(restackPiles(piles, [2, 0, 1])).toEqual([...piles[2], ...piles[0], ...piles[1]]);
+  });
+
+  it('leaves decks too small to cut as one pile', () => {
+    expect(cutIntoPiles([4, 5], 3)).toEqual([[4, 5]]);
+  });
+});
+
+describe('indexAtNumber', () => {
+  it('counts only the cards still in the deck', () => {
+    expect(indexAtNumber(5, [], 1)).toBe(0);
+    expect(indexAtNumber(5, [0, 2], 1)).toBe(1);
+    expect(indexAtNumber(5, [0, 2], 2)).toBe(3);
+    expect(indexAtNumber(5, [0, 2], 4)).toBeNull();
+    expect(indexAtNumber(5, [], 0)).toBeNull();
+  });
+});
+
+describe('formatShuffleRitual / parseShuffleRitual', () => {
+  it('round-trips every ritual', () => {
+    for (const value of ['riffle7', 'overhand5', 'cut', 'pick']) {
+      expect(formatShuffleRitual(parseShuffleRitual(value))).toBe(value);
+    }
+    expect(formatShuffleRitual(parseShuffleRitual(null))).toBeNull();
+  });
+
+  it('falls back to the quick shuffle for unknown values', () => {
+    expect(parseShuffleRitual('riffle99')).toEqual({ mode: 'quick' });
+    expect(parseShuffleRitual('juggle')).toEqual({ mode: 'quick' });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Deck-preparation rituals — physical-style ways to shuffle and cut
+ * Every operation is a pure function over a deck of card IDs. Given the same
+ * RandomSource (e.g. a seeded one) it always produces the same order.
+ * Chosen per reading in the wizard and carried in the result URL as ?ritual=
+ */
+
+import { randomBelow, shuffleDeck, cryptoSource, type RandomSource } from './rng';
+
+export type ShuffleRitual =
+  | { mode: 'quick' }                          // One Fisher-Yates shuffle
+  | { mode: 'riffle'; times: number }          // Riffle the deck N times
+  | { mode: 'overhand'; times: number }        // Overhand shuffle N times
+  | { mode: 'cut' }                            // Shuffle, then cut into three piles and restack
+  | { mode: 'pick' };                          // Shuffle, then draw cards by naming a number
+
+export type ShuffleRitualMode = ShuffleRitual['mode'];
+
+export const DEFAULT_SHUFFLE_RITUAL: ShuffleRitual = { mode: 'quick' };
+
+export const MAX_RITUAL_PASSES = 12;
+
+/** Number of piles used by the cut ritual */
+export const CUT_PILE_COUNT = 3;
+
+/**
+ * Riffle shuffle (Gilbert-Shannon-Reeds model).
+ * The deck is cut binomially near the middle, then cards drop from each half
+ * with a chance proportional to how many cards that half still holds.
+ */
+export function riffleShuffle(deck: number[], source: RandomSource = cryptoSource): number[] {
+  let cut = 0;
+  for (let i = 0; i < deck.length; i++) cut += randomBelow(2, source);
+
+  const left = deck.slice(0, cut);
+  const right = deck.slice(cut);
+  const result: number[] = [];
+  let l = 0;
+  let r = 0;
+
+  while (l < left.length || r < right.length) {
+    const leftRemaining = left.length - l;
+    const rightRemaining = right.length - r;
+    if (randomBelow(leftRemaining + rightRemaining, source) < leftRemaining) {
+      result.push(left[l++]);
+    } else {
+      result.push(right[r++]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Overhand shuffle: small packets are slid off the top of the deck one after
+ * another, each landing on top of the last, so packet order is reversed.
+ */
+export function overhandShuffle(deck: number[], source: RandomSource = cryptoSource): number[] {
+  const maxPacket = Math.max(2, Math.round(deck.length / 8));
+  let result: number[] = [];
+  let i = 0;
+
+  while (i < deck.length) {
+    const size = 1 + randomBelow(maxPacket, source);
+    result = [...deck.slice(i, i + size), ...result];
+    i += size;
+  }
+
+  return result;
+}
+
+/**
+ * Cut the deck into piles of roughly equal size, each cut point jittered
+ * by up to a quarter of a pile. Decks too small to cut come back as one pile.
+ */
+export function cutIntoPiles(
+  deck: number[],
+  pileCount: number = CUT_PILE_COUNT,
+  source: RandomSource = cryptoSource
+): number[][] {
+  if (deck.length < pileCount) return [[...deck]];
+
+  const pileSize = deck.length / pileCount;
+  const jitter = Math.floor(pileSize / 4);
+  const cuts: number[] = [0];
+
+  for (let p = 1; p < pileCount; p++) {
+    const offset = jitter > 0 ? randomBelow(jitter * 2 + 1, source) - jitter : 0;
+    const min = cuts[p - 1] + 1;
+    const max = deck.length - (pileCount - p);
+    cuts.push(Math.min(max, Math.max(min, Math.round(pileSize * p) + offset)));
+  }
+  cuts.push(deck.length);
+
+  return cuts.slice(0, -1).map((start, p) => deck.slice(start, cuts[p + 1]));
+}
+
+/**
+ * Stack piles back into one deck. `order` lists pile indexes from top to bottom.
+ */
+export function restackPiles(piles: number[][], order: number[]): number[] {
+  return order.flatMap(index => piles[index] ?? []);
+}
+
+/**
+ * Find the deck position (0-based) of the card a reader names by number
+ * (1-based) among the cards still in a deck of `deckSize`
+ */
+export function indexAtNumber(deckSize: number, pickedIndexes: number[], number: number): number | null {
+  const remaining = Array.from({ length: deckSize }, (_, i) => i).filter(i => !pickedIndexes.includes(i));
+  return remaining[number - 1] ?? null;
+}
+
+/**
+ * Run the automatic part of a ritual. For 'cut' and 'pick' this is a plain
+ * shuffle; the reader finishes the ritual by restacking or naming numbers.
+ * Riffle and overhand passes start from a shuffled deck, standing in for
+ * whatever order a physical deck was in before the reader picked it up —
+ * a few passes over a sorted deck would leave it mostly sorted.
+ */
+export function prepareDeck(
+  deck: number[],
+  ritual: ShuffleRitual,
+  source: RandomSource = cryptoSource
+): number[] {
+  switch (ritual.mode) {
+    case 'riffle':
+    case 'overhand': {
+      const shuffle = ritual.mode === 'riffle' ? riffleShuffle : overhandShuffle;
+      let result = shuffleDeck(deck, source);
+      for (let pass = 0; pass < ritual.times; pass++) result = shuffle(result, source);
+      return result;
+    }
+    default:
+      return shuffleDeck(deck, source);
+  }
+}
+
+/**
+ * Serialize a ritual for the URL. Returns null for the quick shuffle.
+ * Formats: "riffle7", "overhand5", "cut", "pick"
+ */
+export function formatShuffleRitual(ritual: ShuffleRitual): string | null {
+  switch (ritual.mode) {
+    case 'quick':
+      return null;
+    case 'riffle':
+    case 'overhand':
+      return `${ritual.mode}${ritual.times}`;
+    default:
+      return ritual.mode;
+  }
+}
+
+/**
+ * Parse a ritual from a URL value, falling back to the quick shuffle
+ */
+export function parseShuffleRitual(value: string | null | undefined): ShuffleRitual {
+  if (value === 'cut' || value === 'pick') return { mode: value };
+
+  const match = value?.match(/^(riffle|overhand)(\d{1,2})$/);
+  if (match) {
+    const times = parseInt(match[2], 10);
+    if (times >= 1 && times <= MAX_RITUAL_PASSES) {
+      return { mode: match[1] as 'riffle' | 'overhand', times };
+    }
+  }
+  return DEFAULT_SHUFFLE_RITUAL;
+}
@@ -0,0 +1,15 @@
+/**
+ * Browser file download helper
+ */
+
+/**
+ * Offer a text file for download
+ */
+export function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
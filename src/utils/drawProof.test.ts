@@ -0,0 +1,153 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { createSeededSource } from './rng';
+import { orientDeck } from './reversalPolicy';
+import {
+  createNonce,
+  commitmentMessage,
+  computeCommitment,
+  verifyCommitment,
+  checkDrawnCards,
+  proofMatchesCards,
+  formatDrawProof,
+  parseDrawProof,
+  parseCommitment,
+  type CommittedDeck,
+  type DrawProof,
+} from './drawProof';
+
+const NONCE = '0123456789abcdef0123456789abcdef';
+
+const DECK: CommittedDeck = {
+  nonce: NONCE,
+  spreadId: '3-card-basic',
+  policy: { mode: 'probability', percent: 50 },
+  order: [4, 0, 21, 9, 33, 1],
+  reversed: [false, true, false, true, false, false],
+};
+
+// Picked the 2nd, 4th and 6th cards of the deck: 0 reversed, 9 reversed, 1 upright
+const PROOF: DrawProof = { ...DECK, picks: [1, 3, 5] };
+const DRAWN = [
+  { cardId: 0, reversed: true },
+  { cardId: 9, reversed: true },
+  { cardId: 1, reversed: false },
+];
+
+describe('createNonce', () => {
+  it('makes 32 lowercase hex characters', () => {
+    expect(createNonce(createSeededSource(1))).toMatch(/^[0-9a-f]{32}$/);
+  });
+});
+
+describe('commitment', () => {
+  it('hashes the nonce, spread, policy, order and orientations', () => {
+    expect(commitmentMessage(DECK)).toBe(`${NONCE}:3-card-basic:p50:4.0.21.9.33.1:010100`);
+  });
+
+  it('is the SHA-256 of the message', async () => {
+    const expected = createHash('sha256').update(commitmentMessage(DECK)).digest('hex');
+    expect(await computeCommitment(DECK)).toBe(expected);
+  });
+
+  it('verifies the deck it was made for', async () => {
+    const commitment = await computeCommitment(DECK);
+    expect(await verifyCommitment(DECK, commitment.toUpperCase())).toBe(true);
+  });
+
+  it('rejects any change to the deck', async () => {
+    const commitment = await computeCommitment(DECK);
+    const changed: CommittedDeck[] = [
+      { ...DECK, order: [0, 4, 21, 9, 33, 1] },
+      { ...DECK, reversed: [false, false, false, true, false, false] },
+      { ...DECK, policy: { mode: 'upright' } },
+      { ...DECK, spreadId: '3-card-situational' },
+      { ...DECK, nonce: NONCE.replace('0', '1') },
+    ];
+    for (const deck of changed) {
+      expect(await verifyCommitment(deck, commitment)).toBe(false);
+    }
+  });
+});
+
+describe('checkDrawnCards', () => {
+  it('accepts the cards at the picked positions, the right way up', () => {
+    const checks = checkDrawnCards(PROOF, DRAWN);
+    expect(checks.map(c => c.deckPosition)).toEqual([2, 4, 6]);
+    expect(checks.every(c => c.matches)).toBe(true);
+    expect(proofMatchesCards(PROOF, DRAWN)).toBe(true);
+  });
+
+  it('rejects a card that is in the deck but not at its picked position', () => {
+    // The Emperor (4) is in the committed deck — just not where position 1 was picked
+    const cards = [{ cardId: 4, reversed: true }, ...DRAWN.slice(1)];
+    const [first] = checkDrawnCards(PROOF, cards);
+    expect(first).toMatchObject({ matches: false, deckPosition: 2, committedCardId: 0, committedReversed: true });
+    expect(proofMatchesCards(PROOF, cards)).toBe(false);
+  });
+
+  it('rejects a card shown the wrong way up', () => {
+    const cards = [DRAWN[0], DRAWN[1], { cardId: 1, reversed: true }];
+    expect(checkDrawnCards(PROOF, cards)[2].matches).toBe(false);
+    expect(proofMatchesCards(PROOF, cards)).toBe(false);
+  });
+
+  it('flags cards the proof has no pick for', () => {
+    const cards = [...DRAWN, { cardId: 33, reversed: false }];
+    expect(checkDrawnCards(PROOF, cards)[3]).toMatchObject({ deckPosition: null, matches: false });
+    expect(proofMatchesCards(PROOF, cards)).toBe(false);
+  });
+
+  it('reads cards upright outside challenge positions under the challenge policy', () => {
+    // 5-card-deeper: position 2 is the Challenge
+    const proof: DrawProof = {
+      ...DECK,
+      spreadId: '5-card-deeper',
+      policy: { mode: 'challenge' },
+      reversed: [true, true, true, true, true, true],
+      picks: [0, 1, 2, 3, 4],
+    };
+    const expected = [4, 0, 21, 9, 33].map((cardId, index) => ({ cardId, reversed: index === 1 }));
+    expect(proofMatchesCards(proof, expected)).toBe(true);
+  });
+});
+
+describe('orientDeck', () => {
+  it('leaves every card upright under the upright policy', () => {
+    expect(orientDeck({ mode: 'upright' }, DECK.order, createSeededSource(1))).toEqual(DECK.order.map(() => false));
+  });
+
+  it('only turns Major Arcana under the majors policy', () => {
+    const order = Array.from({ length: 78 }, (_, i) => i);
+    const orientation = orientDeck({ mode: 'majors' }, order, createSeededSource(2));
+    expect(orientation.slice(22).some(Boolean)).toBe(false);
+    expect(orientation.slice(0, 22).some(Boolean)).toBe(true);
+  });
+});
+
+describe('formatDrawProof / parseDrawProof', () => {
+  it('round-trips a proof', () => {
+    expect(parseDrawProof(formatDrawProof(PROOF), 78)).toEqual(PROOF);
+  });
+
+  it('rejects malformed proofs', () => {
+    const valid = formatDrawProof(PROOF);
+    const parts = valid.split(':');
+    const withPart = (index: number, value: string) => parts.map((part, i) => (i === index ? value : part)).join(':');
+
+    expect(parseDrawProof(null, 78)).toBeNull();
+    expect(parseDrawProof(parts.slice(0, 5).join(':'), 78)).toBeNull();      // no picks
+    expect(parseDrawProof(withPart(0, 'abc'), 78)).toBeNull();                // short nonce
+    expect(parseDrawProof(withPart(2, 'sometimes'), 78)).toBeNull();          // unknown policy
+    expect(parseDrawProof(withPart(3, '4.0.21.9.33.4'), 78)).toBeNull();      // repeated card
+    expect(parseDrawProof(withPart(3, '4.0.21.9.33.78'), 78)).toBeNull();     // card out of range
+    expect(parseDrawProof(withPart(4, '0101'), 78)).toBeNull();               // orientation count
+    expect(parseDrawProof(withPart(5, '1.1.5'), 78)).toBeNull();              // repeated pick
+    expect(parseDrawProof(withPart(5, '1.3.6'), 78)).toBeNull();              // pick off the deck
+  });
+
+  it('parses commitments case-insensitively', () => {
+    expect(parseCommitment(` ${'AB'.repeat(32)} `)).toBe('ab'.repeat(32));
+    expect(parseCommitment('ab'.repeat(31))).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Commit-reveal draw proofs
+ * Before the reader picks, the wizard shows a SHA-256 commitment to the
+ * shuffled deck: its order, which way up each card lies, the spread and the
+ * reversal policy, plus a secret nonce. The result page reveals all of it
+ * together with the deck positions the reader picked (?commit= and ?proof=),
+ * so anyone can recompute the hash on /verify and check that every card in
+ * the reading is the one that sat at its picked position.
+ *
+ * The picks themselves are the reader's choice, made after the commitment,
+ * so they are revealed but not hashed.
+ */
+
+import { cryptoSource, type RandomSource } from './rng';
+import { parseReversalPolicy, readsReversed, type ReversalPolicy } from './reversalPolicy';
+
+/**
+ * Everything the commitment covers — fixed before the first pick
+ */
+export interface CommittedDeck {
+  /** 128-bit hex nonce so the commitment can't be brute-forced before the reveal */
+  nonce: string;
+  spreadId: string;
+  policy: ReversalPolicy;
+  /** Deck order (card IDs, top to bottom) the reader picked from */
+  order: number[];
+  /** Which way up each card lies, one flag per entry in `order` (true = reversed) */
+  reversed: boolean[];
+}
+
+/**
+ * A revealed proof: the committed deck and the positions picked from it
+ */
+export interface DrawProof extends CommittedDeck {
+  /** Deck positions (0-based) the reader picked, in spread order */
+  picks: number[];
+}
+
+/**
+ * How one card of a reading compares with the proof
+ */
+export interface DrawnCardCheck {
+  /** 1-based position in the spread */
+  position: number;
+  cardId: number;
+  reversed: boolean;
+  /** 1-based position in the committed deck it was picked from (null if the proof has no pick) */
+  deckPosition: number | null;
+  /** The card the committed deck holds at that position */
+  committedCardId: number | null;
+  /** How that card reads there, given its orientation and the reversal policy */
+  committedReversed: boolean | null;
+  matches: boolean;
+}
+
+const NONCE_PATTERN = /^[0-9a-f]{32}$/;
+const COMMITMENT_PATTERN = /^[0-9a-f]{64}$/;
+const SPREAD_ID_PATTERN = /^[a-z0-9-]+$/;
+const IDS_PATTERN = /^\d+(?:\.\d+)*$/;
+const BITS_PATTERN = /^[01]+$/;
+
+/**
+ * Create a fresh 128-bit nonce as lowercase hex
+ */
+export function createNonce(source: RandomSource = cryptoSource): string {
+  return Array.from({ length: 4 }, () => source.nextUint32().toString(16).padStart(8, '0')).join('');
+}
+
+// Every policy spelled out, including the default ("p50")
+function policyToken(policy: ReversalPolicy): string {
+  return policy.mode === 'probability' ? `p${policy.percent}` : policy.mode;
+}
+
+/**
+ * The exact text that gets hashed:
+ * "<nonce>:<spreadId>:<policy>:<id>.<id>...:<0|1 per card>"
+ */
+export function commitmentMessage(deck: CommittedDeck): string {
+  const bits = deck.reversed.map(r => (r ? '1' : '0')).join('');
+  return `${deck.nonce}:${deck.spreadId}:${policyToken(deck.policy)}:${deck.order.join('.')}:${bits}`;
+}
+
+/**
+ * SHA-256 of the commitment message as lowercase hex.
+ * Uses Web Crypto, so it runs the same in the browser and on the server.
+ */
+export async function computeCommitment(deck: CommittedDeck): Promise<string> {
+  const bytes = new TextEncoder().encode(commitmentMessage(deck));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check a revealed deck against a commitment shown before the draw
+ */
+export async function verifyCommitment(deck: CommittedDeck, commitment: string): Promise<boolean> {
+  return (await computeCommitment(deck)) === commitment.trim().toLowerCase();
+}
+
+/**
+ * Compare a reading's cards with the picks in a proof: each card must be the
+ * one the committed deck held at its picked position, the right way up.
+ */
+export function checkDrawnCards(
+  proof: DrawProof,
+  cards: Array<{ cardId: number; reversed: boolean }>
+): DrawnCardCheck[] {
+  return cards.map(({ cardId, reversed }, index) => {
+    const pick = proof.picks[index];
+    if (pick === undefined) {
+      return { position: index + 1, cardId, reversed, deckPosition: null, committedCardId: null, committedReversed: null, matches: false };
+    }
+    const committedCardId = proof.order[pick];
+    const committedReversed = readsReversed(proof.policy, proof.reversed[pick], proof.spreadId, index);
+    return {
+      position: index + 1,
+      cardId,
+      reversed,
+      deckPosition: pick + 1,
+      committedCardId,
+      committedReversed,
+      matches: committedCardId === cardId && committedReversed === reversed,
+    };
+  });
+}
+
+/**
+ * Whether a proof accounts for exactly these cards, in order and orientation
+ */
+export function proofMatchesCards(
+  proof: DrawProof,
+  cards: Array<{ cardId: number; reversed: boolean }>
+): boolean {
+  return proof.picks.length === cards.length && checkDrawnCards(proof, cards).every(check => check.matches);
+}
+
+/**
+ * Parse a commitment from a URL value. Returns null if it is missing or invalid.
+ */
+export function parseCommitment(value: string | null | undefined): string | null {
+  const commitment = value?.trim().toLowerCase();
+  return commitment && COMMITMENT_PATTERN.test(commitment) ? commitment : null;
+}
+
+/**
+ * Serialize a revealed proof for the URL: the commitment message followed by
+ * the picks, "<message>:<pick>.<pick>..."
+ */
+export function formatDrawProof(proof: DrawProof): string {
+  return `${commitmentMessage(proof)}:${proof.picks.join('.')}`;
+}
+
+/**
+ * Parse a revealed proof from a URL value. Returns null unless the nonce is
+ * well formed, the order is a list of distinct card IDs below totalCards with
+ * one orientation each, and the picks are distinct positions in the deck.
+ */
+export function parseDrawProof(value: string | null | undefined, totalCards: number): DrawProof | null {
+  const parts = value?.trim().split(':');
+  if (!parts || parts.length !== 6) return null;
+
+  const [nonceValue, spreadId, policyValue, orderValue, bits, picksValue] = parts;
+  const nonce = nonceValue.toLowerCase();
+  if (!NONCE_PATTERN.test(nonce) || !SPREAD_ID_PATTERN.test(spreadId)) return null;
+  if (!IDS_PATTERN.test(orderValue) || !BITS_PATTERN.test(bits) || !IDS_PATTERN.test(picksValue)) return null;
+
+  // parseReversalPolicy falls back to the default; only accept what round-trips
+  const policy = parseReversalPolicy(policyValue);
+  if (policyToken(policy) !== policyValue) return null;
+
+  const order = orderValue.split('.').map(Number);
+  const picks = picksValue.split('.').map(Number);
+  if (new Set(order).size !== order.length || order.some(id => id >= totalCards)) return null;
+  if (bits.length !== order.length) return null;
+  if (new Set(picks).size !== picks.length || picks.some(pick => pick >= order.length)) return null;
+
+  return { nonce, spreadId, policy, order, reversed: [...bits].map(bit => bit === '1'), picks };
+}
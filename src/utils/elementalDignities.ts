@@ -0,0 +1,55 @@
+/**
+ * Elemental dignities — how neighbouring cards colour each other through
+ * their elements, as in the Golden Dawn tradition
+ * Same and friendly elements strengthen each other, contrary elements weaken
+ * each other, and the remaining (neutral) pairs leave each other as they are.
+ * Each card's element comes from its correspondences.
+ */
+
+import type { TarotCard } from '../types/tarot';
+import type { ElementalDignity, ElementalRelation, DignityEffect } from '../types/reading';
+import type { Element } from './deckPool';
+
+/** Elements that help each other; every other mixed pair is contrary or neutral */
+const FRIENDLY: [Element, Element][] = [['fire', 'air'], ['water', 'earth']];
+const CONTRARY: [Element, Element][] = [['fire', 'water'], ['air', 'earth']];
+
+const EFFECTS: Record<ElementalRelation, DignityEffect> = {
+  same: 'strengthen',
+  friendly: 'strengthen',
+  contrary: 'weaken',
+  neutral: 'neutral',
+};
+
+/**
+ * How much a dignity shifts an interaction's strength (0-1)
+ */
+export const DIGNITY_STRENGTH: Record<ElementalRelation, number> = {
+  same: 0.35,
+  friendly: 0.2,
+  contrary: -0.2,
+  neutral: 0,
+};
+
+const isPair = (pairs: [Element, Element][], a: Element, b: Element) =>
+  pairs.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
+
+/**
+ * How two elements treat each other
+ */
+export function getElementalRelation(a: Element, b: Element): ElementalRelation {
+  if (a === b) return 'same';
+  if (isPair(FRIENDLY, a, b)) return 'friendly';
+  if (isPair(CONTRARY, a, b)) return 'contrary';
+  return 'neutral';
+}
+
+/**
+ * The dignity between two neighbouring cards
+ */
+export function getElementalDignity(card1: TarotCard, card2: TarotCard): ElementalDignity {
+  const { element: element1 } = card1.correspondences;
+  const { element: element2 } = card2.correspondences;
+  const relation = getElementalRelation(element1, element2);
+  return { element1, element2, relation, effect: EFFECTS[relation] };
+}
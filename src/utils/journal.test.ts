@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest';
+import type { Reading } from './storage';
+import {
+  createMemoryStore,
+  createJournalRepository,
+  readingFromResultUrl,
+  scheduleFollowUp,
+  isFollowUpDue,
+  normalizeTags,
+  collectTags,
+  filterReadings,
+  FOLLOW_UP_DAYS,
+} from './journal';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function reading(id: string, timestamp: number, extra: Partial<Reading> = {}): Reading {
+  return {
+    id,
+    timestamp,
+    spreadId: '3-card-basic',
+    cards: [
+      { cardId: 0, reversed: false },
+      { cardId: 1, reversed: true },
+      { cardId: 2, reversed: false },
+    ],
+    ...extra,
+  };
+}
+
+/** A localStorage stand-in */
+function fakeStorage(entries: Record<string, string> = {}) {
+  const items = new Map(Object.entries(entries));
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    removeItem: (key: string) => { items.delete(key); },
+  };
+}
+
+describe('createMemoryStore', () => {
+  it('copies records in and out', async () => {
+    const original = reading('a', 1);
+    const store = createMemoryStore([original]);
+    original.question = 'changed after saving';
+
+    const stored = await store.get('a');
+    expect(stored?.question).toBeUndefined();
+    stored!.notes = 'changed after reading';
+    expect((await store.get('a'))?.notes).toBeUndefined();
+  });
+});
+
+describe('JournalRepository', () => {
+  it('saves and gets readings', async () => {
+    const journal = createJournalRepository(createMemoryStore());
+    await journal.save(reading('a', 1, { question: 'Will it rain?' }));
+    expect(await journal.get('a')).toMatchObject({ id: 'a', question: 'Will it rain?' });
+    expect(await journal.get('missing')).toBeUndefined();
+  });
+
+  it('lists newest first with no cap', async () => {
+    const journal = createJournalRepository(createMemoryStore());
+    for (let i = 0; i < 25; i++) await journal.save(reading(`r${i}`, i * 1000));
+
+    const list = await journal.list();
+    expect(list).toHaveLength(25);
+    expect(list[0].id).toBe('r24');
+    expect(list.map(r => r.timestamp)).toEqual([...list.map(r => r.timestamp)].sort((a, b) => b - a));
+    expect((await journal.latest())?.id).toBe('r24');
+  });
+
+  it('has no latest reading when empty', async () => {
+    expect(await createJournalRepository(createMemoryStore()).latest()).toBeUndefined();
+  });
+
+  it('replaces a reading saved twice', async () => {
+    const journal = createJournalRepository(createMemoryStore());
+    await journal.save(reading('a', 1));
+    await journal.save(reading('a', 1, { notes: 'second' }));
+    expect(await journal.list()).toHaveLength(1);
+    expect((await journal.get('a'))?.notes).toBe('second');
+  });
+
+  it('updates annotations and normalizes tags', async () => {
+    const journal = createJournalRepository(createMemoryStore([reading('a', 1)]));
+    const updated = await journal.update('a', { notes: 'It did rain', mood: 4, tags: [' Work', 'work', 'New Moon '] });
+
+    expect(updated).toMatchObject({ notes: 'It did rain', mood: 4, tags: ['work', 'new moon'] });
+    expect(await journal.get('a')).toEqual(updated);
+  });
+
+  it('returns undefined when updating a missing reading', async () => {
+    const journal = createJournalRepository(createMemoryStore());
+    expect(await journal.update('missing', { notes: 'x' })).toBeUndefined();
+    expect(await journal.list()).toEqual([]);
+  });
+
+  it('removes readings', async () => {
+    const journal = createJournalRepository(createMemoryStore([reading('a', 1), reading('b', 2)]));
+    await journal.remove('a');
+    expect((await journal.list()).map(r => r.id)).toEqual(['b']);
+  });
+});
+
+describe('migrateLegacy', () => {
+  const legacyHistory = [reading('old-1', 1000), reading('old-2', 2000, { question: 'Job?' })];
+
+  it('imports the old history and drops the old keys', async () => {
+    const journal = createJournalRepository(createMemoryStore());
+    const storage = fakeStorage({ readingHistory: JSON.stringify(legacyHistory) });
+
+    expect(await journal.migrateLegacy(storage)).toBe(2);
+    expect((await journal.list()).map(r => r.id)).toEqual(['old-2', 'old-1']);
+    expect(storage.items.size).toBe(0);
+  });
+
+  it('rebuilds the last reading from its URL', async () => {
+    const journal = createJournalRepository(createMemoryStore());
+    const storage = fakeStorage({
+      tarot_last_reading: JSON.stringify({ url: '/result/3-card-basic/0-1-2/010?question=Hi&lang=vi', ts: 5000 }),
+    });
+
+    expect(await journal.migrateLegacy(storage)).toBe(1);
+    expect(await journal.latest()).toMatchObject({
+      timestamp: 5000,
+      spreadId: '3-card-basic',
+      cards: [
+        { cardId: 0, reversed: false },
+        { cardId: 1, reversed: true },
+        { cardId: 2, reversed: false },
+      ],
+      question: 'Hi',
+      lang: 'vi',
+    });
+    expect(storage.getItem('tarot_last_reading')).toBeNull();
+  });
+
+  it('skips readings already in the journal and malformed entries', async () => {
+    const journal = createJournalRepository(createMemoryStore([reading('old-1', 1000, { notes: 'kept' })]));
+    const storage = fakeStorage({
+      readingHistory: JSON.stringify([...legacyHistory, { id: 'broken' }, null]),
+    });
+
+    expect(await journal.migrateLegacy(storage)).toBe(1);
+    expect((await journal.get('old-1'))?.notes).toBe('kept');
+    expect(await journal.get('broken')).toBeUndefined();
+  });
+
+  it('skips the last reading when its URL is already in the journal', async () => {
+    const url = '/result/3-card-basic/0-1-2/010';
+    const journal = createJournalRepository(createMemoryStore([reading('a', 1, { url })]));
+    const storage = fakeStorage({ tarot_last_reading: JSON.stringify({ url, ts: 5000 }) });
+
+    expect(await journal.migrateLegacy(storage)).toBe(0);
+    expect(await journal.list()).toHaveLength(1);
+  });
+
+  it('tolerates unreadable JSON and runs only once', async () => {
+    const journal = createJournalRepository(createMemoryStore());
+    const storage = fakeStorage({ readingHistory: '{not json', tarot_last_reading: 'null' });
+
+    expect(await journal.migrateLegacy(storage)).toBe(0);
+    expect(storage.items.size).toBe(0);
+    expect(await journal.migrateLegacy(storage)).toBe(0);
+  });
+});
+
+describe('readingFromResultUrl', () => {
+  it('ignores URLs that are not result pages', () => {
+    expect(readingFromResultUrl('/reading/3-card-basic')).toBeNull();
+    expect(readingFromResultUrl('/result/3-card-basic/one-two/01')).toBeNull();
+  });
+
+  it('keeps the path and query so the reading can be reopened', () => {
+    const result = readingFromResultUrl('https://example.com/result/1-card/5/1?rev=upright', 42);
+    expect(result).toMatchObject({ timestamp: 42, spreadId: '1-card', url: '/result/1-card/5/1?rev=upright' });
+    expect(result?.lang).toBeUndefined();
+  });
+});
+
+describe('follow-ups', () => {
+  it('fall due a week after the reading until answered', () => {
+    const followUp = scheduleFollowUp(0);
+    expect(followUp.dueAt).toBe(FOLLOW_UP_DAYS * DAY_MS);
+
+    const r = reading('a', 0, { followUp });
+    expect(isFollowUpDue(r, followUp.dueAt - 1)).toBe(false);
+    expect(isFollowUpDue(r, followUp.dueAt)).toBe(true);
+    expect(isFollowUpDue({ ...r, followUp: { ...followUp, accuracy: 3 } }, followUp.dueAt)).toBe(false);
+    expect(isFollowUpDue(reading('b', 0), followUp.dueAt)).toBe(false);
+  });
+});
+
+describe('tags and filters', () => {
+  const readings = [
+    reading('a', 1, { tags: ['work'], mood: 2, question: 'Promotion?' }),
+    reading('b', 2, { tags: ['work', 'love'], notes: 'Coffee with Sam' }),
+    reading('c', 3, { tags: ['love'], mood: 5 }),
+    reading('d', 4, { followUp: { dueAt: 10 } }),
+  ];
+
+  it('normalizes comma-separated tags', () => {
+    expect(normalizeTags('Work, , work ,Love')).toEqual(['work', 'love']);
+  });
+
+  it('collects tags, most used first', () => {
+    expect(collectTags(readings)).toEqual(['love', 'work']);
+  });
+
+  it('filters by tag, mood, text and due follow-ups', () => {
+    const ids = (filter: Parameters<typeof filterReadings>[1]) => filterReadings(readings, filter, 100).map(r => r.id);
+    expect(ids({})).toEqual(['a', 'b', 'c', 'd']);
+    expect(ids({ tag: 'love' })).toEqual(['b', 'c']);
+    expect(ids({ mood: 5 })).toEqual(['c']);
+    expect(ids({ text: 'coffee' })).toEqual(['b']);
+    expect(ids({ text: 'promotion', tag: 'work' })).toEqual(['a']);
+    expect(ids({ followUpDue: true })).toEqual(['d']);
+  });
+});
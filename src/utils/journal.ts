@@ -0,0 +1,306 @@
+/**
+ * Reading journal — every completed reading, kept on this device
+ * Backed by IndexedDB (no cap on the number of entries). An in-memory store
+ * with the same interface is used where IndexedDB isn't available
+ * (SSR, some private-browsing modes).
+ */
+
+import type { Reading, ReadingFollowUp } from './storage';
+import type { SupportedLanguage } from '../types/i18n';
+import { formatSeed, generateSeed } from './rng';
+import { decodeResultPath } from './readingCodec';
+
+/**
+ * Low-level key-value store for readings, keyed by Reading.id
+ */
+export interface JournalStore {
+  get(id: string): Promise<Reading | undefined>;
+  getAll(): Promise<Reading[]>;
+  put(reading: Reading): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Typed journal API used by pages and components
+ */
+export interface JournalRepository {
+  /** Add or replace a reading */
+  save(reading: Reading): Promise<void>;
+  get(id: string): Promise<Reading | undefined>;
+  /** All readings, newest first */
+  list(): Promise<Reading[]>;
+  /** The most recent reading, if any */
+  latest(): Promise<Reading | undefined>;
+  /** Change the reader's annotations on a reading; returns the updated record */
+  update(id: string, changes: ReadingAnnotations): Promise<Reading | undefined>;
+  remove(id: string): Promise<void>;
+  /** Import the old localStorage history once, then drop the old keys */
+  migrateLegacy(storage: Pick<Storage, 'getItem' | 'removeItem'>): Promise<number>;
+}
+
+/**
+ * The parts of a reading the reader can edit after the fact
+ */
+export type ReadingAnnotations = Partial<Pick<Reading, 'notes' | 'tags' | 'mood' | 'followUp'>>;
+
+/**
+ * Filters for the journal page. Empty fields don't filter.
+ */
+export interface JournalFilter {
+  /** Matches the question, notes, tags and follow-up note */
+  text?: string;
+  tag?: string;
+  mood?: number;
+  /** Only readings whose follow-up is due and unanswered */
+  followUpDue?: boolean;
+}
+
+/** Days after a reading before asking how it turned out */
+export const FOLLOW_UP_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'tarot-journal';
+const DB_VERSION = 1;
+const STORE_NAME = 'readings';
+
+// Keys used before the journal existed
+const LEGACY_HISTORY_KEY = 'readingHistory';
+const LEGACY_LAST_READING_KEY = 'tarot_last_reading';
+
+/**
+ * Create a reading ID that sorts roughly by time
+ */
+export function createReadingId(timestamp: number = Date.now()): string {
+  return `${timestamp.toString(36)}-${formatSeed(generateSeed())}`;
+}
+
+/**
+ * Build a journal record from a result page URL, in either the token form
+ * or the old /result/{spreadId}/{ids}/{reversed}?question=... form.
+ * Returns null if the URL isn't a result page.
+ */
+export function readingFromResultUrl(url: string, timestamp: number = Date.now()): Reading | null {
+  const parsed = new URL(url, 'http://localhost'); // Base doesn't matter, we only need the path
+  if (!parsed.pathname.startsWith('/result/')) return null;
+  const decoded = decodeResultPath(parsed.pathname.slice('/result/'.length), parsed.searchParams);
+  if (!decoded) return null;
+
+  const { spreadId, cards, question } = decoded.reading;
+  const langParam = parsed.searchParams.get('lang');
+  const lang: SupportedLanguage | undefined = langParam === 'en' || langParam === 'vi' ? langParam : undefined;
+
+  return {
+    id: createReadingId(timestamp),
+    timestamp,
+    spreadId,
+    cards,
+    ...(question ? { question } : {}),
+    ...(lang ? { lang } : {}),
+    url: parsed.pathname + parsed.search,
+  };
+}
+
+/**
+ * Schedule the "how did this turn out?" check-in for a reading
+ */
+export function scheduleFollowUp(timestamp: number, days: number = FOLLOW_UP_DAYS): ReadingFollowUp {
+  return { dueAt: timestamp + days * DAY_MS };
+}
+
+/**
+ * Check whether a reading's follow-up is waiting for an answer
+ */
+export function isFollowUpDue(reading: Reading, now: number = Date.now()): boolean {
+  return !!reading.followUp && reading.followUp.accuracy === undefined && reading.followUp.dueAt <= now;
+}
+
+/**
+ * Turn comma-separated input into clean, unique, lowercase tags
+ */
+export function normalizeTags(input: string | string[]): string[] {
+  const raw = Array.isArray(input) ? input : input.split(',');
+  return [...new Set(raw.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Every tag used in the journal, most used first
+ */
+export function collectTags(readings: Reading[]): string[] {
+  const counts = new Map<string, number>();
+  readings.forEach(r => r.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+}
+
+/**
+ * Apply journal page filters
+ */
+export function filterReadings(readings: Reading[], filter: JournalFilter, now: number = Date.now()): Reading[] {
+  const text = filter.text?.trim().toLowerCase();
+  return readings.filter(r => {
+    if (filter.tag && !r.tags?.includes(filter.tag)) return false;
+    if (filter.mood && r.mood !== filter.mood) return false;
+    if (filter.followUpDue && !isFollowUpDue(r, now)) return false;
+    if (text) {
+      const haystack = [r.question, r.notes, r.followUp?.note, ...(r.tags ?? [])].join(' ').toLowerCase();
+      if (!haystack.includes(text)) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed store. The database is opened lazily on first use.
+ */
+export function createIndexedDbStore(dbName: string = DB_NAME): JournalStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return promisify(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    get: (id) => run('readonly', store => store.get(id) as IDBRequest<Reading | undefined>),
+    getAll: () => run('readonly', store => store.getAll() as IDBRequest<Reading[]>),
+    put: async (reading) => { await run('readwrite', store => store.put(reading)); },
+    delete: async (id) => { await run('readwrite', store => store.delete(id)); },
+  };
+}
+
+/**
+ * In-memory store with the same behaviour as the IndexedDB one.
+ * Records are copied in and out so callers can't mutate stored entries.
+ */
+export function createMemoryStore(initial: Reading[] = []): JournalStore {
+  const readings = new Map<string, Reading>(initial.map(r => [r.id, structuredClone(r)]));
+
+  return {
+    get: async (id) => {
+      const reading = readings.get(id);
+      return reading && structuredClone(reading);
+    },
+    getAll: async () => [...readings.values()].map(r => structuredClone(r)),
+    put: async (reading) => { readings.set(reading.id, structuredClone(reading)); },
+    delete: async (id) => { readings.delete(id); },
+  };
+}
+
+/**
+ * Parse a JSON value from storage, treating anything unreadable as missing
+ */
+function readLegacyJson(storage: Pick<Storage, 'getItem'>, key: string): unknown {
+  try {
+    return JSON.parse(storage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create the journal API on top of a store
+ */
+export function createJournalRepository(store: JournalStore): JournalRepository {
+  const list = async () => (await store.getAll()).sort((a, b) => b.timestamp - a.timestamp);
+
+  return {
+    save: (reading) => store.put(reading),
+    get: (id) => store.get(id),
+    list,
+    latest: async () => (await list())[0],
+    remove: (id) => store.delete(id),
+
+    async update(id, changes) {
+      const reading = await store.get(id);
+      if (!reading) return undefined;
+      const updated: Reading = { ...reading, ...changes };
+      if (changes.tags) updated.tags = normalizeTags(changes.tags);
+      await store.put(updated);
+      return updated;
+    },
+
+    async migrateLegacy(storage) {
+      const existing = await store.getAll();
+      const existingIds = new Set(existing.map(r => r.id));
+      const existingUrls = new Set(existing.map(r => r.url).filter(Boolean));
+      let imported = 0;
+
+      const history = readLegacyJson(storage, LEGACY_HISTORY_KEY);
+      if (Array.isArray(history)) {
+        for (const reading of history as Reading[]) {
+          if (!reading?.id || !reading.spreadId || !Array.isArray(reading.cards) || existingIds.has(reading.id)) continue;
+          await store.put(reading);
+          existingIds.add(reading.id);
+          imported++;
+        }
+      }
+
+      // "Continue last reading" only kept a URL; rebuild the reading from it
+      const last = readLegacyJson(storage, LEGACY_LAST_READING_KEY) as { url?: string; ts?: number } | null;
+      if (last?.url && typeof last.ts === 'number') {
+        const reading = readingFromResultUrl(last.url, last.ts);
+        if (reading && !existingUrls.has(reading.url)) {
+          await store.put(reading);
+          imported++;
+        }
+      }
+
+      storage.removeItem(LEGACY_HISTORY_KEY);
+      storage.removeItem(LEGACY_LAST_READING_KEY);
+      return imported;
+    },
+  };
+}
+
+let journalPromise: Promise<JournalRepository> | null = null;
+
+/**
+ * Get the browser's journal, migrating the old localStorage history on first use
+ */
+export function getJournal(): Promise<JournalRepository> {
+  journalPromise ??= (async () => {
+    let store: JournalStore = createMemoryStore();
+    if (typeof indexedDB !== 'undefined') {
+      const idbStore = createIndexedDbStore();
+      try {
+        await idbStore.getAll();
+        store = idbStore;
+      } catch (error) {
+        console.error('IndexedDB unavailable, journal kept in memory:', error);
+      }
+    }
+    const journal = createJournalRepository(store);
+    if (typeof localStorage !== 'undefined') {
+      try {
+        await journal.migrateLegacy(localStorage);
+      } catch (error) {
+        console.error('Error migrating reading history:', error);
+      }
+    }
+    return journal;
+  })();
+  return journalPromise;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import type { Reading } from './storage';
+import { computeJournalStats, monthOf, suitBucketOf } from './journalStats';
+
+const MARCH = Date.UTC(2024, 2, 10, 12);
+
+let lastId = 0;
+
+function reading(cards: Array<[number, boolean?]>, extra: Partial<Reading> = {}): Reading {
+  return {
+    id: `r${++lastId}`,
+    timestamp: MARCH,
+    spreadId: '3-card-basic',
+    cards: cards.map(([cardId, reversed = false]) => ({ cardId, reversed })),
+    ...extra,
+  };
+}
+
+describe('computeJournalStats', () => {
+  it('is all zeros for an empty journal', () => {
+    const stats = computeJournalStats([], 'UTC');
+    expect(stats).toMatchObject({
+      totalReadings: 0,
+      totalCards: 0,
+      cardFrequencies: [],
+      balanceOverTime: [],
+      reversalRatio: 0,
+      majorShare: 0,
+      majorFrequencies: [],
+      spreadCounts: [],
+    });
+    expect(stats.suitCounts).toEqual({ major: 0, wands: 0, cups: 0, swords: 0, pentacles: 0 });
+    expect(stats.elementCounts).toEqual({ fire: 0, water: 0, air: 0, earth: 0 });
+    expect(Object.values(stats.recurringByCategory).every(list => list.length === 0)).toBe(true);
+  });
+
+  it('counts cards most frequent first, ties by card ID', () => {
+    const stats = computeJournalStats([
+      reading([[36], [0, true], [22]]),
+      reading([[22, true], [0, true], [5]]),
+      reading([[36]]),
+    ], 'UTC');
+    expect(stats.cardFrequencies).toEqual([
+      { cardId: 0, count: 2, reversedCount: 2 },
+      { cardId: 22, count: 2, reversedCount: 1 },
+      { cardId: 36, count: 2, reversedCount: 0 },
+      { cardId: 5, count: 1, reversedCount: 0 },
+    ]);
+    expect(stats.majorFrequencies.map(f => f.cardId)).toEqual([0, 5]);
+    expect(stats.totalCards).toBe(7);
+  });
+
+  it('breaks cards down by suit and by element, leaving the Major Arcana out of the elements', () => {
+    // Fool, Ace of Wands, King of Wands, Ace of Cups, Ace of Swords, Ace of Pentacles
+    const stats = computeJournalStats([reading([[0], [22], [35]]), reading([[36], [50], [64]])], 'UTC');
+    expect(stats.suitCounts).toEqual({ major: 1, wands: 2, cups: 1, swords: 1, pentacles: 1 });
+    expect(stats.elementCounts).toEqual({ fire: 2, water: 1, air: 1, earth: 1 });
+    expect(stats.majorShare).toBeCloseTo(1 / 6);
+  });
+
+  it('works out the reversal ratio over every drawn card', () => {
+    const stats = computeJournalStats([reading([[1, true], [2], [3]]), reading([[4, true]])], 'UTC');
+    expect(stats.reversalRatio).toBe(0.5);
+  });
+
+  it('skips cards and spreads that no longer exist', () => {
+    const stats = computeJournalStats([
+      reading([[0], [78], [-1]]),
+      reading([[1]], { spreadId: 'retired-spread' }),
+    ], 'UTC');
+    expect(stats.totalReadings).toBe(2);
+    expect(stats.totalCards).toBe(2);
+    expect(stats.spreadCounts).toEqual([{ spreadId: '3-card-basic', count: 1 }]);
+  });
+
+  it('orders spreads by use', () => {
+    const stats = computeJournalStats([
+      reading([[0]], { spreadId: '1-card' }),
+      reading([[0]], { spreadId: '10-card-celtic' }),
+      reading([[0]], { spreadId: '1-card' }),
+      reading([[0]]),
+    ], 'UTC');
+    expect(stats.spreadCounts).toEqual([
+      { spreadId: '1-card', count: 2 },
+      { spreadId: '10-card-celtic', count: 1 },
+      { spreadId: '3-card-basic', count: 1 },
+    ]);
+  });
+
+  it('groups recurring cards by the question category', () => {
+    const stats = computeJournalStats([
+      reading([[10], [20]], { question: 'Will I get the promotion at work?' }),
+      reading([[10, true], [30]], { question: 'What about my career?' }),
+      reading([[20], [30]], { question: 'Does my partner love me?' }),
+    ], 'UTC');
+    expect(stats.recurringByCategory.work).toEqual([{ cardId: 10, count: 2, reversedCount: 1 }]);
+    expect(stats.recurringByCategory.love).toEqual([]);
+  });
+
+  it('balances suits per month, oldest first', () => {
+    const stats = computeJournalStats([
+      reading([[22]], { timestamp: Date.UTC(2024, 4, 2) }),
+      reading([[0], [36]], { timestamp: Date.UTC(2023, 11, 31, 12) }),
+      reading([[50]], { timestamp: Date.UTC(2024, 4, 30) }),
+    ], 'UTC');
+    expect(stats.balanceOverTime.map(p => [p.period, p.readings])).toEqual([['2023-12', 1], ['2024-05', 2]]);
+    expect(stats.balanceOverTime[0].suits).toMatchObject({ major: 1, cups: 1 });
+    expect(stats.balanceOverTime[1].elements).toEqual({ fire: 1, water: 0, air: 1, earth: 0 });
+  });
+
+  it('counts readings near midnight in the month of the reader\'s time zone', () => {
+    // 22:00 UTC on 29 February is already 1 March in Vietnam (UTC+7)
+    const lateFebruaryUtc = reading([[0]], { timestamp: Date.UTC(2024, 1, 29, 22) });
+    // 03:00 UTC on 1 March is still 29 February in New York (UTC-5)
+    const earlyMarchUtc = reading([[1]], { timestamp: Date.UTC(2024, 2, 1, 3) });
+    const periods = (timeZone: string) =>
+      computeJournalStats([lateFebruaryUtc, earlyMarchUtc], timeZone).balanceOverTime.map(p => [p.period, p.readings]);
+
+    expect(periods('UTC')).toEqual([['2024-02', 1], ['2024-03', 1]]);
+    expect(periods('Asia/Ho_Chi_Minh')).toEqual([['2024-03', 2]]);
+    expect(periods('America/New_York')).toEqual([['2024-02', 2]]);
+  });
+});
+
+describe('monthOf', () => {
+  it('crosses the year boundary by time zone', () => {
+    const newYearUtc = Date.UTC(2025, 0, 1, 0, 30);
+    expect(monthOf(newYearUtc, 'UTC')).toBe('2025-01');
+    expect(monthOf(newYearUtc, 'America/Los_Angeles')).toBe('2024-12');
+    expect(monthOf(Date.UTC(2024, 11, 31, 18), 'Asia/Tokyo')).toBe('2025-01');
+  });
+});
+
+describe('suitBucketOf', () => {
+  it('puts majors in their own bucket and minors in their suit', () => {
+    expect([0, 21, 22, 36, 50, 77].map(suitBucketOf)).toEqual(['major', 'major', 'wands', 'cups', 'swords', 'pentacles']);
+    expect(suitBucketOf(78)).toBeNull();
+  });
+});
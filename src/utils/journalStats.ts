@@ -0,0 +1,156 @@
+/**
+ * Journal statistics — pure aggregation over saved readings
+ * Card and spread facts come from the English data files so the numbers don't
+ * depend on the reader's language. Cards or spreads that no longer exist are
+ * skipped rather than counted.
+ */
+
+import type { Reading } from './storage';
+import { SUITS, SUIT_ELEMENTS, type Suit, type Element } from './deckPool';
+import { detectCategory, type MeaningCategory } from './questionCategory';
+import cardsData from '../data/cards.json';
+import spreadsData from '../data/spreads.json';
+
+/** Suits plus a bucket for the Major Arcana */
+export type SuitBucket = Suit | 'major';
+
+export const SUIT_BUCKETS: SuitBucket[] = ['major', ...SUITS];
+
+export const ELEMENTS: Element[] = ['fire', 'water', 'air', 'earth'];
+
+export interface CardFrequency {
+  cardId: number;
+  count: number;
+  reversedCount: number;
+}
+
+export interface PeriodBalance {
+  /** Calendar month in the reader's time zone, "YYYY-MM" */
+  period: string;
+  readings: number;
+  suits: Record<SuitBucket, number>;
+  elements: Record<Element, number>;
+}
+
+export interface JournalStats {
+  totalReadings: number;
+  totalCards: number;
+  /** Every drawn card, most frequent first */
+  cardFrequencies: CardFrequency[];
+  suitCounts: Record<SuitBucket, number>;
+  elementCounts: Record<Element, number>;
+  /** Suit and element balance per month, oldest first */
+  balanceOverTime: PeriodBalance[];
+  /** Share of drawn cards that were reversed (0-1) */
+  reversalRatio: number;
+  /** Share of drawn cards that were Major Arcana (0-1) */
+  majorShare: number;
+  /** Major Arcana only, most frequent first */
+  majorFrequencies: CardFrequency[];
+  /** Spreads by use, most used first */
+  spreadCounts: Array<{ spreadId: string; count: number }>;
+  /** Cards drawn more than once within each question category */
+  recurringByCategory: Record<MeaningCategory, CardFrequency[]>;
+}
+
+/** Share of Major Arcana in a full 78-card deck */
+export const EXPECTED_MAJOR_SHARE = cardsData.filter(c => c.arcana === 'major').length / cardsData.length;
+
+const emptySuits = (): Record<SuitBucket, number> => ({ major: 0, wands: 0, cups: 0, swords: 0, pentacles: 0 });
+const emptyElements = (): Record<Element, number> => ({ fire: 0, water: 0, air: 0, earth: 0 });
+
+/**
+ * Which suit bucket a card belongs to
+ */
+export function suitBucketOf(cardId: number): SuitBucket | null {
+  const card = cardsData[cardId];
+  if (!card) return null;
+  return card.arcana === 'major' ? 'major' : (card.suit as Suit);
+}
+
+/**
+ * The calendar month a timestamp falls in, "YYYY-MM". `timeZone` is an IANA
+ * name; the runtime's own zone when omitted.
+ */
+export function monthOf(timestamp: number, timeZone?: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit' })
+    .formatToParts(timestamp);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}`;
+}
+
+/**
+ * Count card appearances, most frequent first (ties by card ID)
+ */
+function tally(cards: Reading['cards']): CardFrequency[] {
+  const counts = new Map<number, CardFrequency>();
+  for (const { cardId, reversed } of cards) {
+    const entry = counts.get(cardId) ?? { cardId, count: 0, reversedCount: 0 };
+    entry.count++;
+    if (reversed) entry.reversedCount++;
+    counts.set(cardId, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.cardId - b.cardId);
+}
+
+/**
+ * Compute every dashboard statistic from the journal. Months follow
+ * `timeZone` (see monthOf), so a reading late on the last of the month
+ * isn't counted in the next one.
+ */
+export function computeJournalStats(readings: Reading[], timeZone?: string): JournalStats {
+  const suitCounts = emptySuits();
+  const elementCounts = emptyElements();
+  const periods = new Map<string, PeriodBalance>();
+  const spreadCounts = new Map<string, number>();
+  const cardsByCategory: Record<MeaningCategory, Reading['cards']> = {
+    work: [], love: [], health: [], spirituality: [], general: [],
+  };
+  const allCards: Reading['cards'] = [];
+
+  for (const reading of readings) {
+    const cards = reading.cards.filter(c => suitBucketOf(c.cardId) !== null);
+    const spread = spreadsData.find(s => s.id === reading.spreadId);
+    if (spread) spreadCounts.set(spread.id, (spreadCounts.get(spread.id) ?? 0) + 1);
+
+    const period = monthOf(reading.timestamp, timeZone);
+    const balance = periods.get(period) ?? { period, readings: 0, suits: emptySuits(), elements: emptyElements() };
+    balance.readings++;
+    periods.set(period, balance);
+
+    for (const { cardId } of cards) {
+      const bucket = suitBucketOf(cardId)!;
+      suitCounts[bucket]++;
+      balance.suits[bucket]++;
+      if (bucket !== 'major') {
+        elementCounts[SUIT_ELEMENTS[bucket]]++;
+        balance.elements[SUIT_ELEMENTS[bucket]]++;
+      }
+    }
+
+    allCards.push(...cards);
+    cardsByCategory[detectCategory(reading.question ?? '', spread)].push(...cards);
+  }
+
+  const cardFrequencies = tally(allCards);
+  const totalCards = allCards.length;
+  const recurringByCategory = Object.fromEntries(
+    Object.entries(cardsByCategory).map(([category, cards]) => [category, tally(cards).filter(f => f.count > 1)])
+  ) as Record<MeaningCategory, CardFrequency[]>;
+
+  return {
+    totalReadings: readings.length,
+    totalCards,
+    cardFrequencies,
+    suitCounts,
+    elementCounts,
+    balanceOverTime: [...periods.values()].sort((a, b) => a.period.localeCompare(b.period)),
+    reversalRatio: totalCards ? allCards.filter(c => c.reversed).length / totalCards : 0,
+    majorShare: totalCards ? suitCounts.major / totalCards : 0,
+    majorFrequencies: cardFrequencies.filter(f => suitBucketOf(f.cardId) === 'major'),
+    spreadCounts: [...spreadCounts.entries()]
+      .map(([spreadId, count]) => ({ spreadId, count }))
+      .sort((a, b) => b.count - a.count || a.spreadId.localeCompare(b.spreadId)),
+    recurringByCategory,
+  };
+}
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import type { Reading } from './storage';
+import {
+  exportJournalJson,
+  exportJournalCsv,
+  exportJournalMarkdown,
+  parseJournalImport,
+  mergeImportedReadings,
+  JOURNAL_EXPORT_FORMAT,
+  JOURNAL_EXPORT_VERSION,
+  type JournalExportNames,
+} from './journalTransfer';
+
+const NAMES: JournalExportNames = {
+  cardNames: ['The Fool', 'The Magician', 'The High Priestess'],
+  spreadNames: { '3-card-basic': 'Past - Present - Future' },
+};
+
+const FULL: Reading = {
+  id: 'full',
+  timestamp: Date.UTC(2024, 2, 10, 12),
+  spreadId: '3-card-basic',
+  cards: [
+    { cardId: 0, reversed: false },
+    { cardId: 1, reversed: true },
+    { cardId: 2, reversed: false },
+  ],
+  question: 'Should I say "yes", or wait?',
+  lang: 'en',
+  url: '/result/abc?rev=p30',
+  notes: 'First line\nsecond, with a comma',
+  tags: ['work', 'new moon'],
+  mood: 4,
+  followUp: { dueAt: 1000, accuracy: 5, answeredAt: 2000, note: 'Spot on' },
+};
+
+const BARE: Reading = {
+  id: 'bare',
+  timestamp: Date.UTC(2024, 2, 11),
+  spreadId: '3-card-basic',
+  cards: [{ cardId: 2, reversed: true }],
+};
+
+// RFC 4180 rows, enough to read the export back
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { row.push(field); field = ''; }
+    else if (char === '\r' && text[i + 1] === '\n') { row.push(field); rows.push(row); row = []; field = ''; i++; }
+    else field += char;
+  }
+  return rows;
+}
+
+const importFile = (readings: unknown[], version = JOURNAL_EXPORT_VERSION) =>
+  JSON.stringify({ format: JOURNAL_EXPORT_FORMAT, version, exportedAt: '2024-01-01T00:00:00.000Z', readings });
+
+describe('JSON export', () => {
+  it('round-trips every field through import', () => {
+    const text = exportJournalJson([FULL, BARE], new Date('2024-04-01T00:00:00Z'));
+    expect(JSON.parse(text)).toMatchObject({ format: JOURNAL_EXPORT_FORMAT, exportedAt: '2024-04-01T00:00:00.000Z' });
+    expect(parseJournalImport(text)).toEqual({
+      ok: true,
+      readings: [FULL, BARE],
+      skipped: 0,
+      droppedCards: 0,
+      unknownSpreads: 0,
+    });
+  });
+
+  it('still reads a bare array of readings from old backups', () => {
+    const result = parseJournalImport(JSON.stringify([BARE]));
+    expect(result).toMatchObject({ ok: true, readings: [BARE] });
+  });
+});
+
+describe('CSV export', () => {
+  it('writes one row per reading that reads back field for field', () => {
+    const [header, full, bare, ...rest] = parseCsv(exportJournalCsv([FULL, BARE], NAMES));
+    expect(rest).toEqual([]);
+    expect(header).toEqual(['id', 'date', 'spread', 'question', 'cards', 'tags', 'mood', 'notes', 'accuracy', 'outcome', 'language', 'url']);
+    expect(full).toEqual([
+      'full',
+      '2024-03-10T12:00:00.000Z',
+      'Past - Present - Future',
+      FULL.question,
+      'The Fool; The Magician (R); The High Priestess',
+      'work; new moon',
+      '4',
+      FULL.notes,
+      '5',
+      'Spot on',
+      'en',
+      FULL.url,
+    ]);
+    expect(bare).toEqual(['bare', '2024-03-11T00:00:00.000Z', 'Past - Present - Future', '', 'The High Priestess (R)', '', '', '', '', '', '', '']);
+  });
+
+  it('falls back to IDs for names it does not have', () => {
+    const csv = exportJournalCsv([{ ...BARE, spreadId: 'retired', cards: [{ cardId: 40, reversed: false }] }], NAMES);
+    expect(parseCsv(csv)[1].slice(2, 5)).toEqual(['retired', '', '#40']);
+  });
+});
+
+describe('Markdown export', () => {
+  it('writes a section per reading with everything the reader added', () => {
+    const markdown = exportJournalMarkdown([FULL, BARE], NAMES, 'My Journal');
+    expect(markdown.split('\n')).toEqual([
+      '# My Journal',
+      '',
+      '## 2024-03-10 — Past - Present - Future',
+      '',
+      `> ${FULL.question}`,
+      '',
+      '- The Fool',
+      '- The Magician (R)',
+      '- The High Priestess',
+      '',
+      'Tags: #work #new-moon',
+      '',
+      'Mood: 4/5',
+      '',
+      'First line',
+      'second, with a comma',
+      '',
+      'Accuracy: 5/5 — Spot on',
+      '',
+      '## 2024-03-11 — Past - Present - Future',
+      '',
+      '- The High Priestess (R)',
+      '',
+    ]);
+  });
+});
+
+describe('parseJournalImport', () => {
+  it('drops unknown card IDs and counts them', () => {
+    const result = parseJournalImport(importFile([
+      { ...FULL, cards: [...FULL.cards, { cardId: 78, reversed: false }, { cardId: 1.5, reversed: true }] },
+      { ...BARE, id: 'gone', cards: [{ cardId: 99, reversed: false }] },
+    ]));
+    expect(result).toMatchObject({ ok: true, skipped: 1, droppedCards: 3 });
+    if (!result.ok) return;
+    expect(result.readings).toHaveLength(1);
+    expect(result.readings[0].cards).toEqual(FULL.cards);
+    // The saved link shows the dropped cards, so it goes too
+    expect(result.readings[0].url).toBeUndefined();
+  });
+
+  it('keeps readings from unknown spreads and counts them', () => {
+    const result = parseJournalImport(importFile([{ ...BARE, spreadId: 'retired-spread' }, FULL]));
+    expect(result).toMatchObject({ ok: true, unknownSpreads: 1 });
+    if (result.ok) expect(result.readings.map(r => r.spreadId)).toEqual(['retired-spread', '3-card-basic']);
+  });
+
+  it('skips entries it cannot use and cleans up the fields it keeps', () => {
+    const result = parseJournalImport(importFile([
+      null,
+      'reading',
+      { ...BARE, id: '' },
+      { ...BARE, id: 'no-time', timestamp: 'yesterday' },
+      { ...BARE, id: 'no-cards', cards: 'all of them' },
+      { ...BARE, id: 'messy', mood: 9, lang: 'fr', url: 'https://elsewhere.test', tags: [' Work ', 7, 'work'], notes: '  ' },
+    ]));
+    expect(result).toMatchObject({ ok: true, skipped: 5 });
+    if (result.ok) expect(result.readings).toEqual([{ ...BARE, id: 'messy', tags: ['work'] }]);
+  });
+
+  it('merges entries that share an ID', () => {
+    const result = parseJournalImport(importFile([BARE, { ...BARE, notes: 'Later thoughts', tags: ['love'] }]));
+    expect(result).toMatchObject({ ok: true, readings: [{ ...BARE, notes: 'Later thoughts', tags: ['love'] }] });
+  });
+
+  it('rejects malformed JSON, unknown formats and newer versions', () => {
+    expect(parseJournalImport('{"format": "tarot-journal", ')).toEqual({ ok: false, reason: 'json' });
+    expect(parseJournalImport('')).toEqual({ ok: false, reason: 'json' });
+    expect(parseJournalImport('{"readings": []}')).toEqual({ ok: false, reason: 'format' });
+    expect(parseJournalImport('"just text"')).toEqual({ ok: false, reason: 'format' });
+    expect(parseJournalImport(importFile([], JOURNAL_EXPORT_VERSION + 1))).toEqual({ ok: false, reason: 'version' });
+  });
+});
+
+describe('mergeImportedReadings', () => {
+  it('adds new readings and merges known ones by ID', () => {
+    const existing: Reading = { ...BARE, tags: ['work'], followUp: { dueAt: 1000 } };
+    const incoming: Reading = { ...BARE, tags: ['love'], mood: 2, followUp: { dueAt: 1000, accuracy: 3 } };
+    const result = mergeImportedReadings([existing], [incoming, FULL]);
+
+    expect(result).toMatchObject({ added: 1, merged: 1 });
+    expect(result.toSave).toEqual([
+      { ...existing, tags: ['work', 'love'], mood: 2, followUp: { dueAt: 1000, accuracy: 3 } },
+      FULL,
+    ]);
+  });
+
+  it('keeps the existing cards and annotations', () => {
+    const existing: Reading = { ...BARE, notes: 'Mine', mood: 5 };
+    const incoming: Reading = { ...BARE, cards: [{ cardId: 0, reversed: false }], notes: 'Theirs', mood: 1 };
+    expect(mergeImportedReadings([existing], [incoming])).toEqual({ toSave: [], added: 0, merged: 0 });
+  });
+
+  it('writes nothing when the import is already in the journal', () => {
+    expect(mergeImportedReadings([FULL, BARE], [BARE, FULL])).toEqual({ toSave: [], added: 0, merged: 0 });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Journal export and import
+ * Exports the whole journal as versioned JSON (for moving between browsers),
+ * CSV (spreadsheets) or Markdown (note apps). Imports validate the JSON,
+ * drop cards that no longer exist, and merge with the journal by reading ID.
+ */
+
+import type { Reading, ReadingFollowUp } from './storage';
+import { normalizeTags } from './journal';
+import cardsData from '../data/cards.json';
+import spreadsData from '../data/spreads.json';
+
+export const JOURNAL_EXPORT_FORMAT = 'tarot-journal';
+export const JOURNAL_EXPORT_VERSION = 1;
+
+export interface JournalExport {
+  format: typeof JOURNAL_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  readings: Reading[];
+}
+
+export type JournalImportResult =
+  | {
+      ok: true;
+      readings: Reading[];
+      /** Entries that couldn't be used at all (missing ID, no valid cards...) */
+      skipped: number;
+      /** Cards dropped because their ID isn't in the deck */
+      droppedCards: number;
+      /** Readings kept whose spread no longer exists */
+      unknownSpreads: number;
+    }
+  | { ok: false; reason: 'json' | 'format' | 'version' };
+
+export interface JournalMergeResult {
+  /** Records to write back to the journal (new and changed) */
+  toSave: Reading[];
+  added: number;
+  merged: number;
+}
+
+/** Names used when rendering CSV and Markdown */
+export interface JournalExportNames {
+  cardNames: string[];
+  spreadNames: Record<string, string>;
+}
+
+// ── Export ────────────────────────────────────────────────────────────────────
+
+/**
+ * Versioned JSON export of every reading
+ */
+export function exportJournalJson(readings: Reading[], now: Date = new Date()): string {
+  const data: JournalExport = {
+    format: JOURNAL_EXPORT_FORMAT,
+    version: JOURNAL_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    readings,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+function describeCards(reading: Reading, names: JournalExportNames): string[] {
+  return reading.cards.map(c => `${names.cardNames[c.cardId] ?? `#${c.cardId}`}${c.reversed ? ' (R)' : ''}`);
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV export, one row per reading
+ */
+export function exportJournalCsv(readings: Reading[], names: JournalExportNames): string {
+  const header = ['id', 'date', 'spread', 'question', 'cards', 'tags', 'mood', 'notes', 'accuracy', 'outcome', 'language', 'url'];
+  const rows = readings.map(r => [
+    r.id,
+    new Date(r.timestamp).toISOString(),
+    names.spreadNames[r.spreadId] ?? r.spreadId,
+    r.question,
+    describeCards(r, names).join('; '),
+    r.tags?.join('; '),
+    r.mood,
+    r.notes,
+    r.followUp?.accuracy,
+    r.followUp?.note,
+    r.lang,
+    r.url,
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Markdown export, one section per reading
+ */
+export function exportJournalMarkdown(readings: Reading[], names: JournalExportNames, title = 'Tarot Journal'): string {
+  const sections = readings.map(r => {
+    const lines = [
+      `## ${new Date(r.timestamp).toISOString().slice(0, 10)} — ${names.spreadNames[r.spreadId] ?? r.spreadId}`,
+      '',
+    ];
+    if (r.question) lines.push(`> ${r.question}`, '');
+    lines.push(...describeCards(r, names).map(card => `- ${card}`), '');
+    if (r.tags?.length) lines.push(`Tags: ${r.tags.map(tag => `#${tag.replace(/\s+/g, '-')}`).join(' ')}`, '');
+    if (r.mood) lines.push(`Mood: ${r.mood}/5`, '');
+    if (r.notes) lines.push(r.notes, '');
+    if (r.followUp?.accuracy !== undefined) {
+      lines.push(`Accuracy: ${r.followUp.accuracy}/5${r.followUp.note ? ` — ${r.followUp.note}` : ''}`, '');
+    }
+    return lines.join('\n');
+  });
+  return [`# ${title}`, '', ...sections].join('\n');
+}
+
+// ── Import ────────────────────────────────────────────────────────────────────
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const optionalRating = (value: unknown): number | undefined =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5 ? (value as number) : undefined;
+
+function sanitizeFollowUp(value: unknown): ReadingFollowUp | undefined {
+  if (!isRecord(value) || typeof value.dueAt !== 'number') return undefined;
+  const followUp: ReadingFollowUp = { dueAt: value.dueAt };
+  const accuracy = optionalRating(value.accuracy);
+  if (accuracy !== undefined) followUp.accuracy = accuracy;
+  if (typeof value.answeredAt === 'number') followUp.answeredAt = value.answeredAt;
+  const note = optionalString(value.note);
+  if (note) followUp.note = note;
+  return followUp;
+}
+
+/**
+ * Validate one imported entry. Returns null if it can't be used; unknown
+ * cards are dropped and counted.
+ */
+function sanitizeReading(value: unknown, counts: { droppedCards: number }): Reading | null {
+  if (!isRecord(value)) return null;
+  if (typeof value.id !== 'string' || !value.id || typeof value.spreadId !== 'string') return null;
+  if (typeof value.timestamp !== 'number' || !Number.isFinite(value.timestamp)) return null;
+  if (!Array.isArray(value.cards)) return null;
+
+  const cards = value.cards.filter(
+    (c): c is Reading['cards'][number] => isRecord(c) && typeof c.cardId === 'number' && typeof c.reversed === 'boolean'
+  );
+  const knownCards = cards.filter(c => Number.isInteger(c.cardId) && cardsData[c.cardId] !== undefined);
+  counts.droppedCards += value.cards.length - knownCards.length;
+  if (knownCards.length === 0) return null;
+
+  const reading: Reading = {
+    id: value.id,
+    timestamp: value.timestamp,
+    spreadId: value.spreadId,
+    cards: knownCards.map(c => ({ cardId: c.cardId, reversed: c.reversed })),
+  };
+  const question = optionalString(value.question);
+  if (question) reading.question = question;
+  if (value.lang === 'en' || value.lang === 'vi') reading.lang = value.lang;
+  // The saved result URL would no longer match if any card was dropped
+  const url = optionalString(value.url);
+  if (url?.startsWith('/result/') && knownCards.length === value.cards.length) reading.url = url;
+  const notes = optionalString(value.notes);
+  if (notes) reading.notes = notes;
+  if (Array.isArray(value.tags)) {
+    const tags = normalizeTags(value.tags.filter((t): t is string => typeof t === 'string'));
+    if (tags.length) reading.tags = tags;
+  }
+  const mood = optionalRating(value.mood);
+  if (mood !== undefined) reading.mood = mood;
+  const followUp = sanitizeFollowUp(value.followUp);
+  if (followUp) reading.followUp = followUp;
+  return reading;
+}
+
+/**
+ * Parse an import file. Accepts the versioned export and, for older backups,
+ * a bare array of readings (the old readingHistory format).
+ */
+export function parseJournalImport(text: string): JournalImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, reason: 'json' };
+  }
+
+  let entries: unknown[];
+  if (Array.isArray(data)) {
+    entries = data;
+  } else if (isRecord(data) && data.format === JOURNAL_EXPORT_FORMAT && Array.isArray(data.readings)) {
+    if (typeof data.version !== 'number' || data.version > JOURNAL_EXPORT_VERSION) {
+      return { ok: false, reason: 'version' };
+    }
+    entries = data.readings;
+  } else {
+    return { ok: false, reason: 'format' };
+  }
+
+  const counts = { droppedCards: 0 };
+  const byId = new Map<string, Reading>();
+  let skipped = 0;
+  for (const entry of entries) {
+    const reading = sanitizeReading(entry, counts);
+    if (!reading) skipped++;
+    else byId.set(reading.id, byId.has(reading.id) ? mergeReading(byId.get(reading.id)!, reading) : reading);
+  }
+
+  const readings = [...byId.values()];
+  const spreadIds = new Set(spreadsData.map(s => s.id));
+  return {
+    ok: true,
+    readings,
+    skipped,
+    droppedCards: counts.droppedCards,
+    unknownSpreads: readings.filter(r => !spreadIds.has(r.spreadId)).length,
+  };
+}
+
+/**
+ * Combine two copies of the same reading. The cards and draw details come
+ * from the existing copy; annotations missing there are filled in from the
+ * other, tags are united and an answered follow-up wins over an open one.
+ */
+export function mergeReading(existing: Reading, incoming: Reading): Reading {
+  const merged: Reading = { ...incoming, ...existing };
+  const tags = normalizeTags([...(existing.tags ?? []), ...(incoming.tags ?? [])]);
+  if (tags.length) merged.tags = tags;
+  if (!existing.notes && incoming.notes) merged.notes = incoming.notes;
+  if (existing.mood === undefined && incoming.mood !== undefined) merged.mood = incoming.mood;
+  if (existing.followUp?.accuracy === undefined && incoming.followUp?.accuracy !== undefined) {
+    merged.followUp = incoming.followUp;
+  }
+  return merged;
+}
+
+/**
+ * Work out which imported readings need writing to the journal
+ */
+export function mergeImportedReadings(existing: Reading[], incoming: Reading[]): JournalMergeResult {
+  const byId = new Map(existing.map(r => [r.id, r]));
+  const toSave: Reading[] = [];
+  let added = 0;
+  let merged = 0;
+
+  for (const reading of incoming) {
+    const current = byId.get(reading.id);
+    if (!current) {
+      toSave.push(reading);
+      added++;
+      continue;
+    }
+    const combined = mergeReading(current, reading);
+    if (JSON.stringify(combined) !== JSON.stringify(current)) {
+      toSave.push(combined);
+      merged++;
+    }
+  }
+
+  return { toSave, added, merged };
+}
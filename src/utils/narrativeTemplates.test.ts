@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import enNarrative from '../i18n/en/narrative.json';
+import {
+  NarrativePack,
+  getNarrativePack,
+  renderTemplate,
+  validateNarrativePack,
+  validateNarrativePacks,
+} from './narrativeTemplates';
+
+// A copy of the English pack with one template swapped out
+function withTemplate(path: string, template: unknown): unknown {
+  const pack = structuredClone(enNarrative) as Record<string, unknown>;
+  const parts = path.split('.');
+  const parent = parts.slice(0, -1).reduce((node, part) => node[part] as Record<string, unknown>, pack);
+  if (template === undefined) delete parent[parts[parts.length - 1]];
+  else parent[parts[parts.length - 1]] = template;
+  return pack;
+}
+
+describe('validateNarrativePack', () => {
+  it('accepts the packs that ship', () => {
+    expect(validateNarrativePacks()).toEqual([]);
+  });
+
+  it('reports a missing key', () => {
+    expect(validateNarrativePack(withTemplate('dignities.same', undefined))).toEqual(['missing key "dignities.same"']);
+  });
+
+  it('reports an unexpected key', () => {
+    expect(validateNarrativePack(withTemplate('theme.coins', 'Coins'))).toEqual(['unexpected key "theme.coins"']);
+  });
+
+  it('reports an unknown placeholder, with or without a filter', () => {
+    expect(validateNarrativePack(withTemplate('interactions.supporting', '{card1} lifts {card2} and {card3}.')))
+      .toEqual(['"interactions.supporting" uses unknown placeholder {card3}']);
+    expect(validateNarrativePack(withTemplate('interactions.supporting', '{card1} lifts {card2|lower} and {card3|lower}.')))
+      .toEqual(['"interactions.supporting" uses unknown placeholder {card3}']);
+  });
+
+  it('reports an unknown filter', () => {
+    expect(validateNarrativePack(withTemplate('interactions.supporting', '{card1} lifts {card2|upper}.')))
+      .toEqual(['"interactions.supporting" uses unknown filter "|upper"']);
+  });
+
+  it('reports a required placeholder a template leaves out', () => {
+    expect(validateNarrativePack(withTemplate('interactions.supporting', '{card1} lifts the reading.')))
+      .toEqual(['"interactions.supporting" is missing placeholder {card2}']);
+  });
+
+  it('names the variant that is wrong', () => {
+    const variants = [...enNarrative.conclusion.positive];
+    variants[1] = 'It ends with {firstCard}.';
+    expect(validateNarrativePack(withTemplate('conclusion.positive', variants)))
+      .toEqual(['"conclusion.positive" variant 2 uses unknown placeholder {firstCard}']);
+  });
+
+  it('reports the wrong shape', () => {
+    expect(validateNarrativePack(withTemplate('conclusion.positive', 'Only one.')))
+      .toEqual(['"conclusion.positive" must be a non-empty list of variants']);
+    expect(validateNarrativePack(withTemplate('conclusion.positive', [])))
+      .toEqual(['"conclusion.positive" must be a non-empty list of variants']);
+    expect(validateNarrativePack(withTemplate('advice.closing', ' ')))
+      .toEqual(['"advice.closing" must be non-empty text']);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills slots and applies filters', () => {
+    expect(renderTemplate('{card} ({count}) — {theme|lower}', { card: 'The Sun', count: 3, theme: 'Joy' }))
+      .toBe('The Sun (3) — joy');
+  });
+
+  it('throws on a slot with no value', () => {
+    expect(() => renderTemplate('{card} and {other}', { card: 'The Sun' })).toThrow('{other}');
+  });
+});
+
+describe('NarrativePack', () => {
+  const values = { card: 'The Star', position: 'Past', positionDescription: 'What Came Before', reversedNote: '' };
+
+  it('renders English templates', () => {
+    expect(getNarrativePack('en').text('beats.first', values))
+      .toBe('Your reading opens with **The Star** in the **Past** position — what came before');
+  });
+
+  it('renders Vietnamese templates, lower-casing diacritics too', () => {
+    const vi = getNarrativePack('vi');
+    expect(vi.text('beats.first', { ...values, card: 'Ngôi Sao', position: 'Quá Khứ', positionDescription: 'Điều Đã Qua' }))
+      .toBe('Bài xem của bạn mở ra với **Ngôi Sao** ở vị trí **Quá Khứ** — điều đã qua');
+    expect(vi.text('interactions.supporting', { card1: 'Mặt Trời', card2: 'Mặt Trăng' }))
+      .toBe('Mặt Trời tăng cường năng lượng của Mặt Trăng, tạo ra một luồng hài hòa.');
+  });
+
+  it('renders the variant the picker chooses', () => {
+    const pack = new NarrativePack({ greeting: ['Hello {name}', 'Hi {name}'] });
+    const counts: number[] = [];
+    const pick = (count: number) => { counts.push(count); return 1; };
+    expect(pack.variant('greeting', pick, { name: 'Ana' })).toBe('Hi Ana');
+    expect(counts).toEqual([2]);
+  });
+
+  it('throws on a missing template', () => {
+    expect(() => getNarrativePack('en').text('beats.nowhere')).toThrow('"beats.nowhere"');
+  });
+});
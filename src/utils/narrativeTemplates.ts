@@ -0,0 +1,229 @@
+/**
+ * Narrative template packs — the reading analyzer's prose, one JSON file per
+ * language in src/i18n/{lang}/narrative.json, so writers can edit it without
+ * touching TypeScript.
+ *
+ * Templates fill named slots like `{firstCard}`; `{theme|lower}` lower-cases
+ * the value. NARRATIVE_SCHEMA lists every key a pack must have and the slots
+ * each template may (and must) use. The build fails if a pack doesn't match it.
+ */
+
+import type { SupportedLanguage } from '../types/i18n';
+import enNarrative from '../i18n/en/narrative.json';
+import viNarrative from '../i18n/vi/narrative.json';
+
+export type NarrativeValues = Record<string, string | number>;
+
+interface TemplateSpec {
+  /** Slots the analyzer fills for this template */
+  slots?: string[];
+  /** Slots every template for this key has to use */
+  required?: string[];
+  /** A list of interchangeable variants rather than a single template */
+  variants?: boolean;
+}
+
+const ENERGIES = ['positive', 'negative', 'mixed', 'neutral'];
+const SUITS = ['wands', 'cups', 'swords', 'pentacles'];
+const RELATIONSHIPS = ['supporting', 'challenging', 'complementary', 'contradicting', 'neutral'];
+const RANKS = Array.from({ length: 10 }, (_, i) => String(i + 1));
+const MAJORS = Array.from({ length: 22 }, (_, i) => String(i));
+const ANSWERS = ['yes', 'no', 'maybe'];
+const PLANETS = ['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn'];
+const SIGNS = [
+  'aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo',
+  'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces',
+];
+
+const specs = (prefix: string, keys: string[], spec: TemplateSpec = {}): Record<string, TemplateSpec> =>
+  Object.fromEntries(keys.map(key => [`${prefix}.${key}`, spec]));
+
+const BEAT_SPEC: TemplateSpec = {
+  slots: ['card', 'position', 'positionDescription', 'reversedNote'],
+  required: ['card', 'position'],
+};
+
+export const NARRATIVE_SCHEMA: Record<string, TemplateSpec> = {
+  'lists.and': {},
+  ...specs('theme', [...SUITS, 'majorHeavy', 'majorOnly', 'balanced']),
+  ...specs('secondaryThemes', ['relationships', 'career']),
+  ...specs('interactions', RELATIONSHIPS, { slots: ['card1', 'card2'], required: ['card1', 'card2'] }),
+  ...specs('elements', ['fire', 'water', 'air', 'earth']),
+  'dignities.same': { slots: ['element1', 'element2'], required: ['element1'] },
+  ...specs('dignities', ['friendly', 'contrary', 'neutral'], {
+    slots: ['element1', 'element2'],
+    required: ['element1', 'element2'],
+  }),
+  ...specs('opening', ENERGIES, { slots: ['firstCard', 'lastCard', 'theme'], variants: true }),
+  ...specs('body.suits', SUITS, { slots: ['suitCards'], required: ['suitCards'] }),
+  ...specs('body.majorWeight', ['one', 'many'], { slots: ['majorCards'], required: ['majorCards'] }),
+  ...specs('body', ['supportDominant', 'challengeDominant'], { slots: ['cards'], required: ['cards'] }),
+  'body.tension': { slots: ['supportCard', 'challengeCard'], required: ['supportCard', 'challengeCard'] },
+  'body.strongestPair': { slots: ['card1', 'card2', 'interpretation'], required: ['interpretation'] },
+  ...specs('numerology.ranks', RANKS),
+  'numerology.repeatedPair': { slots: ['count', 'cards', 'number', 'meaning'], required: ['cards', 'meaning'] },
+  'numerology.repeatedMany': { slots: ['count', 'cards', 'number', 'meaning'], required: ['cards', 'meaning'] },
+  'numerology.sequenceMinor': {
+    slots: ['numbers', 'cards', 'startMeaning', 'endMeaning'],
+    required: ['numbers'],
+  },
+  'numerology.sequenceMajor': { slots: ['numbers', 'cards'], required: ['cards'] },
+  'numerology.quintessence': { slots: ['total', 'number', 'card'], required: ['card'] },
+  ...specs('numerology.majors', MAJORS),
+  ...specs('astrology.planets', PLANETS),
+  ...specs('astrology.planetMeanings', PLANETS),
+  ...specs('astrology.signs', SIGNS),
+  ...specs('astrology', ['planetPair', 'planetMany'], {
+    slots: ['count', 'planet', 'cards', 'meaning'],
+    required: ['planet', 'cards'],
+  }),
+  ...specs('astrology', ['signPair', 'signMany'], { slots: ['count', 'sign', 'cards'], required: ['sign', 'cards'] }),
+  ...specs('yesNo.answers', ANSWERS, { slots: ['confidence'], required: ['confidence'] }),
+  ...specs('yesNo.drivers', ANSWERS, { slots: ['cards'], required: ['cards'] }),
+  'yesNo.keyCard': { slots: ['card', 'reversedNote', 'meaning'], required: ['card', 'meaning'] },
+  'yesNo.reversedNote': {},
+  ...specs('yesNo.opposing', ['yes', 'no'], { slots: ['cards'], required: ['cards'] }),
+  'yesNo.balanced': { slots: ['yesCards', 'noCards'], required: ['yesCards', 'noCards'] },
+  ...specs('yesNo.conclusion', ANSWERS),
+  ...specs('conclusion', ENERGIES, { slots: ['lastCard'], variants: true }),
+  ...specs('beats', ['first', 'middle', 'last'], BEAT_SPEC),
+  'beats.reversedNote': {},
+  'beats.clarifier': {
+    slots: ['card', 'clarifier', 'reversedNote', 'meaning'],
+    required: ['clarifier', 'meaning'],
+  },
+  'beats.clarifierReversedNote': {},
+  ...specs('courts.ranks', ['page', 'knight', 'queen', 'king']),
+  ...specs('courts', ['person', 'self', 'either'], {
+    slots: ['card', 'rankDescription', 'element', 'subElement'],
+    required: ['card'],
+  }),
+  ...specs('connectors', [
+    ...RELATIONSHIPS.filter(type => type !== 'complementary' && type !== 'neutral'),
+    'challenge', 'future', 'action', 'past', 'present', 'hidden', 'feeling', 'support', 'lesson',
+  ]),
+  'connectors.generic': { variants: true },
+  ...specs('advice', ['anchor', 'friction'], { slots: ['card'], required: ['card'] }),
+  'advice.closing': {},
+};
+
+const FILTERS: Record<string, (value: string) => string> = {
+  lower: value => value.toLowerCase(),
+};
+
+const PLACEHOLDER = /\{(\w+)(?:\|(\w+))?\}/g;
+
+const PACKS: Record<SupportedLanguage, unknown> = { en: enNarrative, vi: viNarrative };
+
+/**
+ * Fill a template's `{slot}` and `{slot|filter}` placeholders
+ */
+export function renderTemplate(template: string, values: NarrativeValues): string {
+  return template.replace(PLACEHOLDER, (_, name: string, filter?: string) => {
+    if (!(name in values)) throw new Error(`No value for narrative slot {${name}}`);
+    const value = String(values[name]);
+    return filter ? FILTERS[filter](value) : value;
+  });
+}
+
+function lookup(pack: unknown, key: string): unknown {
+  return key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    pack
+  );
+}
+
+function leafKeys(node: unknown, prefix = ''): string[] {
+  if (!node || typeof node !== 'object' || Array.isArray(node)) return [prefix];
+  return Object.entries(node).flatMap(([key, child]) => leafKeys(child, prefix ? `${prefix}.${key}` : key));
+}
+
+/**
+ * Check a pack against NARRATIVE_SCHEMA. Returns one message per problem:
+ * missing or unexpected keys, wrong shapes, unknown slots or filters, and
+ * required slots a template leaves out.
+ */
+export function validateNarrativePack(pack: unknown): string[] {
+  const problems: string[] = [];
+
+  for (const [key, spec] of Object.entries(NARRATIVE_SCHEMA)) {
+    const value = lookup(pack, key);
+    if (value === undefined) {
+      problems.push(`missing key "${key}"`);
+      continue;
+    }
+
+    let templates: unknown[];
+    if (spec.variants) {
+      if (!Array.isArray(value) || value.length === 0) {
+        problems.push(`"${key}" must be a non-empty list of variants`);
+        continue;
+      }
+      templates = value;
+    } else {
+      templates = [value];
+    }
+
+    templates.forEach((template, index) => {
+      const label = spec.variants ? `"${key}" variant ${index + 1}` : `"${key}"`;
+      if (typeof template !== 'string' || template.trim() === '') {
+        problems.push(`${label} must be non-empty text`);
+        return;
+      }
+      const used = new Set<string>();
+      for (const [, name, filter] of template.matchAll(PLACEHOLDER)) {
+        used.add(name);
+        if (!spec.slots?.includes(name)) problems.push(`${label} uses unknown placeholder {${name}}`);
+        if (filter && !FILTERS[filter]) problems.push(`${label} uses unknown filter "|${filter}"`);
+      }
+      for (const name of spec.required ?? []) {
+        if (!used.has(name)) problems.push(`${label} is missing placeholder {${name}}`);
+      }
+    });
+  }
+
+  for (const key of leafKeys(pack)) {
+    if (!(key in NARRATIVE_SCHEMA)) problems.push(`unexpected key "${key}"`);
+  }
+  return problems;
+}
+
+/**
+ * Validate every language's pack; messages are prefixed with the language
+ */
+export function validateNarrativePacks(): string[] {
+  return Object.entries(PACKS).flatMap(([lang, pack]) =>
+    validateNarrativePack(pack).map(problem => `${lang}/narrative.json: ${problem}`)
+  );
+}
+
+/**
+ * Template lookup for one language
+ */
+export class NarrativePack {
+  constructor(private pack: unknown) {}
+
+  private get(key: string): unknown {
+    const value = lookup(this.pack, key);
+    if (value === undefined) throw new Error(`Missing narrative template "${key}"`);
+    return value;
+  }
+
+  /** Render a single template */
+  text(key: string, values: NarrativeValues = {}): string {
+    return renderTemplate(this.get(key) as string, values);
+  }
+
+  /** Render one of a key's variants, chosen by `pick(count)` */
+  variant(key: string, pick: (count: number) => number, values: NarrativeValues = {}): string {
+    const variants = this.get(key) as string[];
+    return renderTemplate(variants[pick(variants.length)], values);
+  }
+}
+
+/**
+ * The narrative pack for a language
+ */
+export function getNarrativePack(lang: SupportedLanguage): NarrativePack {
+  return new NarrativePack(PACKS[lang]);
+}
@@ -0,0 +1,77 @@
+/**
+ * Numerology — patterns in the numbers of the drawn cards
+ * Repeated ranks look at the pips (Ace to Ten), sequences run within the pips
+ * or within the Majors, and the quintessence adds up every numbered card.
+ * Court cards carry no number and are left out.
+ */
+
+import type { DrawnCard, TarotCard } from '../types/tarot';
+import type { NumberSequence, NumerologyFindings, Quintessence, RepeatedRank } from '../types/reading';
+
+const MIN_SEQUENCE = 3;
+
+const digitSum = (n: number) => String(n).split('').reduce((sum, digit) => sum + Number(digit), 0);
+
+/**
+ * Reduce a total to a Major Arcana number: add its digits until it is 22 or
+ * less, with 22 counting as The Fool (0)
+ */
+export function reduceToMajor(total: number): number {
+  let n = total;
+  while (n > 22) n = digitSum(n);
+  return n === 22 ? 0 : n;
+}
+
+/**
+ * Pip ranks that appear on more than one card, most repeated first
+ */
+function findRepeatedRanks(pips: TarotCard[]): RepeatedRank[] {
+  const byNumber = new Map<number, TarotCard[]>();
+  for (const card of pips) {
+    byNumber.set(card.number!, [...(byNumber.get(card.number!) ?? []), card]);
+  }
+  return [...byNumber.entries()]
+    .filter(([, cards]) => cards.length > 1)
+    .map(([number, cards]) => ({ number, cards }))
+    .sort((a, b) => b.cards.length - a.cards.length || a.number - b.number);
+}
+
+/**
+ * Runs of at least three consecutive numbers among the given cards
+ */
+function findSequences(cards: TarotCard[], arcana: NumberSequence['arcana']): NumberSequence[] {
+  const numbers = [...new Set(cards.map(c => c.number!))].sort((a, b) => a - b);
+  const runs: number[][] = [];
+  for (const n of numbers) {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === n - 1) run.push(n);
+    else runs.push([n]);
+  }
+  return runs
+    .filter(run => run.length >= MIN_SEQUENCE)
+    .map(run => ({ arcana, numbers: run, cards: cards.filter(c => run.includes(c.number!)) }));
+}
+
+/**
+ * The quintessence of a draw with at least two numbered cards
+ */
+function findQuintessence(numbered: TarotCard[]): Quintessence | null {
+  if (numbered.length < 2) return null;
+  const total = numbered.reduce((sum, card) => sum + card.number!, 0);
+  return { total, number: reduceToMajor(total) };
+}
+
+/**
+ * Find repeated ranks, number sequences and the quintessence of a draw
+ */
+export function findNumerology(drawn: DrawnCard[]): NumerologyFindings {
+  const numbered = drawn.map(dc => dc.card).filter(card => card.number !== null);
+  const pips = numbered.filter(card => card.arcana === 'minor');
+  const majors = numbered.filter(card => card.arcana === 'major');
+
+  return {
+    repeatedRanks: findRepeatedRanks(pips),
+    sequences: [...findSequences(pips, 'minor'), ...findSequences(majors, 'major')],
+    quintessence: findQuintessence(numbered),
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import type { APIContext } from 'astro';
+import { GET } from '../pages/og/[token].png';
+import { loadSpreads } from './loadData';
+import { OG_HEIGHT, OG_WIDTH, renderReadingOgImage, type OgReading } from './ogImage';
+
+const spread = loadSpreads('vi').find(s => s.id === '3-card-basic')!;
+
+// A plain grey card, whatever the path
+const loadImage = () => sharp({ create: { width: 60, height: 90, channels: 3, background: '#808080' } }).png().toBuffer();
+
+// Pixels in a band of the image that are far from the dark background
+async function litPixels(png: Buffer, top: number, height: number): Promise<number> {
+  const { data, info } = await sharp(png)
+    .extract({ left: 0, top, width: OG_WIDTH, height })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  let lit = 0;
+  for (let i = 0; i < data.length; i += info.channels) {
+    if (data[i] + data[i + 1] + data[i + 2] > 300) lit++;
+  }
+  return lit;
+}
+
+describe('renderReadingOgImage', () => {
+  const reading: OgReading = {
+    spread,
+    cards: [0, 1, 2].map(i => ({ image: `/images/cards/${i}.jpg`, reversed: i === 1 })),
+    question: 'Tôi có nên đổi việc không?',
+    siteName: 'Tarot by the Stars',
+  };
+
+  it('sets the title, question and site name in the bundled fonts', async () => {
+    const png = await renderReadingOgImage(reading, loadImage);
+    const { width, height } = await sharp(png).metadata();
+    expect([width, height]).toEqual([OG_WIDTH, OG_HEIGHT]);
+    expect(await litPixels(png, 30, 60)).toBeGreaterThan(500);   // title
+    expect(await litPixels(png, 100, 40)).toBeGreaterThan(500);  // question
+    expect(await litPixels(png, OG_HEIGHT - 40, 40)).toBeGreaterThan(100); // site name
+  });
+
+  it('leaves the question band empty without a question', async () => {
+    const png = await renderReadingOgImage({ ...reading, question: undefined }, loadImage);
+    expect(await litPixels(png, 120, 50)).toBe(0);
+  });
+});
+
+describe('GET /og/{token}.png', () => {
+  const get = (search: string) => {
+    const url = new URL(`https://tarot.test/og/abc.png${search}`);
+    return GET({
+      params: { token: 'abc' },
+      url,
+      request: new Request(url, { headers: { cookie: 'tarot-language=vi' } }),
+      redirect: (path: string, status: number) => new Response(null, { status, headers: { Location: path } }),
+    } as unknown as APIContext);
+  };
+
+  it('redirects to the URL with only a supported lang', async () => {
+    for (const [search, location] of [
+      ['', '/og/abc.png?lang=en'],
+      ['?lang=fr', '/og/abc.png?lang=en'],
+      ['?lang=vi&v=2', '/og/abc.png?lang=vi'],
+    ]) {
+      const response = await get(search);
+      expect(response.status).toBe(301);
+      expect(response.headers.get('Location')).toBe(location);
+    }
+  });
+
+  it('answers a canonical URL itself', async () => {
+    expect((await get('?lang=vi')).status).toBe(404); // 'abc' is no reading
+  });
+});
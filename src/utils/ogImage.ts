@@ -0,0 +1,260 @@
+/**
+ * Open Graph preview image for a reading — the drawn cards laid out like
+ * SpreadLayout, with the spread name and question on top. Only import this
+ * from SSR endpoints (it uses sharp).
+ *
+ * Serverless functions have no system fonts, so text is set with the fonts in
+ * src/fonts (Cormorant Garamond and Inter, both with Vietnamese). They are
+ * inlined into the server bundle and written to a temporary file on first
+ * use, since sharp only loads fonts from disk.
+ */
+
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import sharp from 'sharp';
+import cormorantBold from '../fonts/CormorantGaramond-Bold.ttf?inline';
+import interItalic from '../fonts/Inter-Italic.ttf?inline';
+import interRegular from '../fonts/Inter-Regular.ttf?inline';
+import type { TarotSpread } from '../types/tarot';
+
+export const OG_WIDTH = 1200;
+export const OG_HEIGHT = 630;
+
+export interface OgReading {
+  spread: TarotSpread;
+  cards: Array<{ image: string; reversed: boolean }>;
+  question?: string;
+  siteName: string;
+}
+
+/** Fetches a card image (a path like /images/cards/Cups01.jpg) */
+export type OgImageLoader = (path: string) => Promise<Buffer>;
+
+/** Slot centre in card cells; x steps one card width, y one card height */
+interface Slot {
+  x: number;
+  y: number;
+  /** Lies across the card below it (Celtic Cross position 2) */
+  crossing?: boolean;
+}
+
+const CARD_ASPECT = 1.5; // Height / width, as in SpreadLayout
+const GAP = 0.15; // Gap between cards, in card widths
+const MAX_CARD_WIDTH = 200;
+const CARD_AREA = { x: 40, y: 190, width: OG_WIDTH - 80, height: OG_HEIGHT - 220 };
+const COLORS = { background: '#2c1a47', backgroundEnd: '#1a1a3e', gold: '#d4af37', text: '#faf8f5', muted: '#c4b5fd' };
+
+/** Font files as data URLs, by name */
+const FONTS = {
+  'CormorantGaramond-Bold.ttf': cormorantBold,
+  'Inter-Italic.ttf': interItalic,
+  'Inter-Regular.ttf': interRegular,
+};
+
+/** Pango font description (sizes in pixels at 72 dpi) and the font that provides it */
+interface TextStyle {
+  font: string;
+  file: keyof typeof FONTS;
+  color: string;
+  /** Extra space between lines */
+  spacing?: number;
+}
+
+const TEXT_STYLES = {
+  title: { font: 'Cormorant Garamond Bold 46', file: 'CormorantGaramond-Bold.ttf', color: COLORS.gold },
+  question: { font: 'Inter Italic 26', file: 'Inter-Italic.ttf', color: COLORS.text, spacing: 8 },
+  site: { font: 'Inter 18', file: 'Inter-Regular.ttf', color: COLORS.muted },
+} satisfies Record<string, TextStyle>;
+
+function rowsOf(counts: number[], spacing = 1): Slot[] {
+  return counts.flatMap((count, row) =>
+    Array.from({ length: count }, (_, col) => ({ x: (col - (count - 1) / 2) * spacing, y: row }))
+  );
+}
+
+/**
+ * Where each position goes, following SpreadLayout's layout types
+ */
+function slotPositions(spread: TarotSpread): Slot[] {
+  const count = spread.positions.length;
+  const grid = spread.layout_grid;
+
+  switch (spread.layout_type) {
+    case 'Line':
+      return rowsOf([count]);
+    case 'VerticalLine':
+      return rowsOf(Array(count).fill(1));
+    case 'Spiral':
+      return Array.from({ length: count }, (_, i) => ({ x: i * 0.1, y: i }));
+    case 'VerticalSplit':
+      return rowsOf(grid, 1.3);
+    case 'T-Shape':
+      return [...rowsOf([grid[0]]), ...Array.from({ length: grid.length - 1 }, (_, i) => ({ x: 0, y: i + 1 }))];
+    case 'CelticCross':
+      return [
+        { x: 1, y: 1 },
+        { x: 1, y: 1, crossing: true },
+        { x: 1, y: 0 },
+        { x: 0, y: 1 },
+        { x: 1, y: 2 },
+        { x: 2, y: 1 },
+        ...[0, 1, 2, 3].map(i => ({ x: 3.4, y: i - 0.5 })), // Staff beside the cross
+      ];
+    case 'Grid':
+    case 'Cross':
+    case 'Square':
+    case 'Diamond':
+    case 'Funnel':
+    case 'Bridge':
+    case 'Arch':
+    case 'Stairs':
+    case 'Arrow':
+      return rowsOf(grid);
+    default:
+      return rowsOf([count]);
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
+
+/**
+ * Break text into at most `maxLines` lines of roughly `lineLength` characters
+ */
+function wrapText(text: string, lineLength: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && (current + ' ' + word).length > lineLength) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, lineLength - 1).trimEnd()}…`;
+  return kept;
+}
+
+function backgroundSvg(): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_WIDTH}" height="${OG_HEIGHT}">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="${COLORS.background}"/>
+      <stop offset="1" stop-color="${COLORS.backgroundEnd}"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#bg)"/>
+</svg>`;
+}
+
+const fontPaths = new Map<keyof typeof FONTS, Promise<string>>();
+
+// Path to a bundled font on disk, written there the first time it is needed
+function fontPath(file: keyof typeof FONTS): Promise<string> {
+  let path = fontPaths.get(file);
+  if (!path) {
+    path = (async () => {
+      const dir = join(tmpdir(), 'tarot-og-fonts');
+      await mkdir(dir, { recursive: true });
+      const target = join(dir, file);
+      // Write aside and rename, so another process never loads half a font
+      const partial = `${target}.${process.pid}`;
+      await writeFile(partial, Buffer.from(FONTS[file].slice(FONTS[file].indexOf(',') + 1), 'base64'));
+      await rename(partial, target);
+      return target;
+    })();
+    path.catch(() => fontPaths.delete(file));
+    fontPaths.set(file, path);
+  }
+  return path;
+}
+
+/**
+ * Set centred lines of text in a bundled font, on a transparent background
+ */
+async function renderText(lines: string[], style: TextStyle): Promise<{ input: Buffer; width: number; height: number }> {
+  const { data, info } = await sharp({
+    text: {
+      text: `<span foreground="${style.color}">${escapeXml(lines.join('\n'))}</span>`,
+      font: style.font,
+      fontfile: await fontPath(style.file),
+      align: 'centre',
+      spacing: style.spacing,
+      rgba: true,
+    },
+  }).png().toBuffer({ resolveWithObject: true });
+  return { input: data, width: info.width, height: info.height };
+}
+
+/**
+ * The spread name and question across the top, the site name bottom right
+ */
+async function textOverlays(reading: OgReading): Promise<sharp.OverlayOptions[]> {
+  const questionLines = reading.question ? wrapText(`“${reading.question}”`, 64, 2) : [];
+  const centred = async (lines: string[], style: TextStyle, centerY: number) => {
+    const text = await renderText(lines, style);
+    return {
+      input: text.input,
+      left: Math.round((OG_WIDTH - text.width) / 2),
+      top: Math.max(0, Math.round(centerY - text.height / 2)),
+    };
+  };
+
+  const overlays = [await centred([reading.spread.name], TEXT_STYLES.title, questionLines.length ? 62 : 84)];
+  if (questionLines.length) {
+    overlays.push(await centred(questionLines, TEXT_STYLES.question, 100 + questionLines.length * 17));
+  }
+  const site = await renderText([reading.siteName], TEXT_STYLES.site);
+  overlays.push({ input: site.input, left: OG_WIDTH - 24 - site.width, top: OG_HEIGHT - 14 - site.height });
+  return overlays;
+}
+
+/**
+ * Render the preview as a PNG
+ */
+export async function renderReadingOgImage(reading: OgReading, loadImage: OgImageLoader): Promise<Buffer> {
+  const slots = slotPositions(reading.spread).slice(0, reading.cards.length);
+
+  // Fit the layout's bounding box into the card area
+  const xs = slots.map(s => s.x);
+  const ys = slots.map(s => s.y);
+  const columns = Math.max(...xs) - Math.min(...xs) + 1;
+  const rows = Math.max(...ys) - Math.min(...ys) + 1;
+  const cardWidth = Math.floor(Math.min(
+    MAX_CARD_WIDTH,
+    CARD_AREA.width / (columns * (1 + GAP)),
+    CARD_AREA.height / (rows * (CARD_ASPECT + GAP))
+  ));
+  const cardHeight = Math.round(cardWidth * CARD_ASPECT);
+  const border = Math.max(2, Math.round(cardWidth / 40));
+  const midX = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const midY = (Math.max(...ys) + Math.min(...ys)) / 2;
+
+  const overlays = await Promise.all(slots.map(async (slot, i) => {
+    const card = reading.cards[i];
+    const angle = (card.reversed ? 180 : 0) + (slot.crossing ? 90 : 0);
+    const framed = await sharp(await loadImage(card.image))
+      .resize(cardWidth - border * 2, cardHeight - border * 2, { fit: 'cover' })
+      .extend({ top: border, bottom: border, left: border, right: border, background: COLORS.gold })
+      .toBuffer();
+    // sharp rotates before resizing within one pipeline, so turn the framed card separately
+    const image = await sharp(framed).rotate(angle).png().toBuffer();
+
+    const [width, height] = slot.crossing ? [cardHeight, cardWidth] : [cardWidth, cardHeight];
+    const centerX = CARD_AREA.x + CARD_AREA.width / 2 + (slot.x - midX) * cardWidth * (1 + GAP);
+    const centerY = CARD_AREA.y + CARD_AREA.height / 2 + (slot.y - midY) * cardWidth * (CARD_ASPECT + GAP);
+    return { input: image, left: Math.round(centerX - width / 2), top: Math.round(centerY - height / 2) };
+  }));
+
+  return sharp(Buffer.from(backgroundSvg()))
+    .composite([...overlays, ...await textOverlays(reading)])
+    .png()
+    .toBuffer();
+}
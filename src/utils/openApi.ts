@@ -0,0 +1,378 @@
+/**
+ * OpenAPI 3.1 description of the public JSON API (served at /api/openapi.json)
+ * Keep in step with the routes in src/pages/api/ and publicApi.ts.
+ */
+
+import spreadsData from '../data/spreads.json';
+import { SUITS } from './deckPool';
+import { OPTION_PATTERNS } from './publicApi';
+import { HEBREW_LETTERS, PLANETS, ZODIAC_SIGNS } from './correspondences';
+
+const lang = {
+  name: 'lang',
+  in: 'query',
+  description: 'Language of names and prose. Falls back to the language cookie, then Accept-Language.',
+  schema: { type: 'string', enum: ['en', 'vi'], default: 'en' },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+const json = (schema: object) => ({ 'application/json': { schema } });
+
+const cardMeaning = {
+  type: 'object',
+  required: ['short', 'detailed', 'general'],
+  properties: {
+    short: { type: 'string' },
+    detailed: { type: 'string', description: 'Markdown with **bold** area headings' },
+    general: { type: 'string' },
+    work: { type: ['string', 'null'] },
+    love: { type: ['string', 'null'] },
+    health: { type: ['string', 'null'] },
+    spirituality: { type: ['string', 'null'] },
+  },
+};
+
+/**
+ * The OpenAPI document, with `origin` as the server URL
+ */
+export function buildOpenApiDocument(origin: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Tarot by the Stars API',
+      version: '1.0.0',
+      description: 'Cards, spreads, draws and reading analysis. No authentication; responses allow any origin.',
+    },
+    servers: [{ url: origin }],
+    paths: {
+      '/api/cards': {
+        get: {
+          operationId: 'listCards',
+          summary: 'List cards, optionally filtered',
+          parameters: [
+            lang,
+            { name: 'arcana', in: 'query', schema: { type: 'string', enum: ['major', 'minor'] } },
+            { name: 'suit', in: 'query', schema: { type: 'string', enum: SUITS } },
+            { name: 'q', in: 'query', description: 'Text to find in the card name or keywords', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: {
+              description: 'Matching cards',
+              content: json({
+                type: 'object',
+                required: ['count', 'cards'],
+                properties: {
+                  count: { type: 'integer' },
+                  cards: { type: 'array', items: { $ref: '#/components/schemas/Card' } },
+                },
+              }),
+            },
+            400: errorResponse('Invalid filter'),
+          },
+        },
+      },
+      '/api/cards/{slug}': {
+        get: {
+          operationId: 'getCard',
+          summary: 'Get one card by slug',
+          parameters: [
+            { name: 'slug', in: 'path', required: true, schema: { type: 'string' }, example: 'the-fool' },
+            lang,
+          ],
+          responses: {
+            200: { description: 'The card', content: json({ $ref: '#/components/schemas/Card' }) },
+            404: errorResponse('No card with this slug'),
+          },
+        },
+      },
+      '/api/spreads': {
+        get: {
+          operationId: 'listSpreads',
+          summary: 'List spreads',
+          parameters: [lang],
+          responses: {
+            200: {
+              description: 'All spreads',
+              content: json({
+                type: 'object',
+                required: ['count', 'spreads'],
+                properties: {
+                  count: { type: 'integer' },
+                  spreads: { type: 'array', items: { $ref: '#/components/schemas/Spread' } },
+                },
+              }),
+            },
+          },
+        },
+      },
+      '/api/draw': {
+        post: {
+          operationId: 'drawSpread',
+          summary: 'Shuffle and deal a spread',
+          description: 'The same seed and options always deal the same cards, the ones the app deals from that seed when each card is taken from the top of the deck. Each draw uses one of the caller\'s readings: 5 per 24 hours, counted per session cookie or, without one, per address.',
+          parameters: [lang],
+          requestBody: { required: true, content: json({ $ref: '#/components/schemas/DrawRequest' }) },
+          responses: {
+            200: { description: 'The drawn cards', content: json({ $ref: '#/components/schemas/Draw' }) },
+            400: errorResponse('Invalid options'),
+            404: errorResponse('Unknown spread'),
+            429: {
+              description: 'No readings left; Retry-After gives the seconds until one frees up',
+              content: json({ $ref: '#/components/schemas/QuotaExceeded' }),
+            },
+          },
+        },
+      },
+      '/api/analyze': {
+        post: {
+          operationId: 'analyzeReading',
+          summary: 'Run the full reading synthesis for a draw',
+          parameters: [lang],
+          requestBody: { required: true, content: json({ $ref: '#/components/schemas/AnalyzeRequest' }) },
+          responses: {
+            200: { description: 'The analysis', content: json({ $ref: '#/components/schemas/Analysis' }) },
+            400: errorResponse('Invalid cards or options'),
+            404: errorResponse('Unknown spread'),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: { error: { type: 'string' } },
+        },
+        QuotaExceeded: {
+          type: 'object',
+          required: ['error', 'quota'],
+          properties: {
+            error: { type: 'string' },
+            quota: {
+              type: 'object',
+              required: ['allowed', 'remaining', 'limit', 'resetsInHours', 'message'],
+              properties: {
+                allowed: { type: 'boolean' },
+                remaining: { type: 'integer', minimum: 0 },
+                limit: { type: 'integer' },
+                resetsInHours: { type: ['integer', 'null'] },
+                message: { type: 'string' },
+              },
+            },
+          },
+        },
+        Card: {
+          type: 'object',
+          required: ['id', 'name', 'slug', 'arcana', 'suit', 'keywords', 'upright', 'reversed', 'image'],
+          properties: {
+            id: { type: 'integer', minimum: 0, maximum: 77 },
+            name: { type: 'string' },
+            slug: { type: 'string' },
+            arcana: { type: 'string', enum: ['major', 'minor'] },
+            suit: { type: ['string', 'null'], enum: [...SUITS, null] },
+            number: { type: ['integer', 'null'] },
+            rank: {
+              oneOf: [{ type: 'integer' }, { type: 'string', enum: ['page', 'knight', 'queen', 'king'] }],
+              description: 'Court rank for court cards, otherwise the same as number',
+            },
+            correspondences: {
+              type: 'object',
+              description: 'Golden Dawn correspondences: element, ruling planet or sign, Hebrew letter and Tree of Life path for Majors, sephirah and decan dates (MM-DD) for Minors',
+              required: ['element'],
+              properties: {
+                element: { type: 'string', enum: ['fire', 'water', 'air', 'earth'] },
+                planet: { type: 'string', enum: PLANETS },
+                zodiac: { type: 'string', enum: ZODIAC_SIGNS },
+                hebrewLetter: { type: 'string', enum: Object.keys(HEBREW_LETTERS) },
+                path: { type: 'integer', minimum: 11, maximum: 32 },
+                sephirah: { type: 'integer', minimum: 1, maximum: 10 },
+                decan: {
+                  type: 'object',
+                  properties: { start: { type: 'string' }, end: { type: 'string' } },
+                },
+              },
+            },
+            yesNo: {
+              type: 'string',
+              enum: ['yes', 'no', 'maybe'],
+              description: 'Answer to a yes/no question when upright; a reversal turns yes into no and no into maybe',
+            },
+            keywords: { type: 'array', items: { type: 'string' } },
+            upright: cardMeaning,
+            reversed: cardMeaning,
+            description: { type: 'string' },
+            image: { type: 'string', format: 'uri' },
+            relationships: {
+              type: 'object',
+              properties: {
+                supporting_cards: { type: 'array', items: { type: 'string' } },
+                challenging_cards: { type: 'array', items: { type: 'string' } },
+              },
+            },
+          },
+        },
+        Spread: {
+          type: 'object',
+          required: ['id', 'name', 'description', 'cardCount', 'positions'],
+          properties: {
+            id: { type: 'string', enum: spreadsData.map(s => s.id) },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            cardCount: { type: 'integer' },
+            layout_type: { type: 'string' },
+            layout_grid: { type: 'array', items: { type: 'integer' } },
+            positions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['position', 'name', 'description'],
+                properties: {
+                  position: { type: 'integer', minimum: 1 },
+                  name: { type: 'string' },
+                  description: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        DrawRequest: {
+          type: 'object',
+          required: ['spreadId'],
+          properties: {
+            spreadId: { type: 'string', example: '3-card-basic' },
+            question: { type: 'string', maxLength: 1000 },
+            seed: { type: 'string', pattern: '^[0-9a-zA-Z]{1,7}$', description: 'Base36 seed; random if omitted' },
+            pool: {
+              type: 'string',
+              pattern: OPTION_PATTERNS.pool,
+              description: 'Deck pool as in the app URL: majors, a suit name, or distinct card IDs 0-77 like c0.5.12; full deck if omitted',
+            },
+            rev: {
+              type: 'string',
+              pattern: OPTION_PATTERNS.rev,
+              description: 'Reversal policy as in the app URL: upright, p0 to p100, majors, challenge; p50 if omitted',
+            },
+            ritual: {
+              type: 'string',
+              pattern: OPTION_PATTERNS.ritual,
+              description: 'Shuffle ritual as in the app URL: riffle or overhand with 1 to 12 passes (riffle7), cut, pick; quick if omitted',
+            },
+            lang: { type: 'string', enum: ['en', 'vi'], description: 'Overrides the lang query parameter' },
+          },
+        },
+        Draw: {
+          type: 'object',
+          required: ['spreadId', 'seed', 'cards', 'resultUrl'],
+          properties: {
+            spreadId: { type: 'string' },
+            seed: { type: 'string' },
+            cards: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['position', 'positionName', 'reversed', 'card'],
+                properties: {
+                  position: { type: 'integer', minimum: 1 },
+                  positionName: { type: 'string' },
+                  reversed: { type: 'boolean' },
+                  card: { $ref: '#/components/schemas/Card' },
+                },
+              },
+            },
+            resultUrl: { type: 'string', format: 'uri', description: 'The reading in the app' },
+          },
+        },
+        AnalyzeRequest: {
+          type: 'object',
+          required: ['spreadId', 'cards'],
+          properties: {
+            spreadId: { type: 'string', example: '3-card-basic' },
+            cards: {
+              type: 'array',
+              description: 'One entry per spread position, in order; no card twice',
+              items: {
+                type: 'object',
+                required: ['cardId'],
+                properties: {
+                  cardId: { type: 'integer', minimum: 0, maximum: 77 },
+                  reversed: { type: 'boolean', default: false },
+                },
+              },
+            },
+            question: { type: 'string' },
+            pool: { type: 'string', pattern: OPTION_PATTERNS.pool, description: 'Deck pool the cards came from, as in /api/draw' },
+            mode: {
+              type: 'string',
+              enum: ['reading', 'yesno'],
+              default: 'reading',
+              description: 'yesno answers the question with yes, no or maybe (one- and three-card spreads only)',
+            },
+            lang: { type: 'string', enum: ['en', 'vi'], description: 'Overrides the lang query parameter' },
+          },
+        },
+        Analysis: {
+          type: 'object',
+          description: 'Theme, card interactions, story beats and synthesis, as shown on the result page',
+          required: ['theme', 'interactions', 'synthesis', 'storyBeats'],
+          properties: {
+            theme: { type: 'object' },
+            interactions: { type: 'array', items: { type: 'object' } },
+            supportingCards: { type: 'array', items: { type: 'object' } },
+            challengingCards: { type: 'array', items: { type: 'object' } },
+            outcomeInfluencers: { type: 'array', items: { type: 'object' } },
+            numerology: {
+              type: 'object',
+              description: 'Repeated pip ranks, runs of consecutive numbers, and the Major Arcana the numbers reduce to',
+              properties: {
+                repeatedRanks: { type: 'array', items: { type: 'object' } },
+                sequences: { type: 'array', items: { type: 'object' } },
+                quintessence: {
+                  type: ['object', 'null'],
+                  properties: { total: { type: 'integer' }, number: { type: 'integer', minimum: 0, maximum: 21 } },
+                },
+              },
+            },
+            correspondences: {
+              type: 'object',
+              description: 'Planets and zodiac signs shared by more than one card',
+              properties: {
+                planets: { type: 'array', items: { type: 'object' } },
+                signs: { type: 'array', items: { type: 'object' } },
+              },
+            },
+            yesNo: {
+              type: 'object',
+              description: 'Only in yesno mode: the answer, its confidence (0-1) and each card\'s vote',
+              properties: {
+                answer: { type: 'string', enum: ['yes', 'no', 'maybe'] },
+                score: { type: 'number', minimum: -1, maximum: 1 },
+                confidence: { type: 'number', minimum: 0, maximum: 1 },
+                votes: { type: 'array', items: { type: 'object' } },
+                drivers: { type: 'array', items: { type: 'object' } },
+                opposing: { type: 'array', items: { type: 'object' } },
+              },
+            },
+            storyBeats: { type: 'array', items: { type: 'object' } },
+            synthesis: {
+              type: 'object',
+              required: ['opening', 'body', 'conclusion', 'advice'],
+              properties: {
+                opening: { type: 'string' },
+                body: { type: 'array', items: { type: 'string' } },
+                conclusion: { type: 'string' },
+                advice: { type: 'string' },
+                numerology: { type: 'string' },
+                astrology: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
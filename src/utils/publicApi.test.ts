@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+import type { APIContext, APIRoute } from 'astro';
+import { POST as draw } from '../pages/api/draw';
+import { POST as analyze } from '../pages/api/analyze';
+import { buildOpenApiDocument } from './openApi';
+import { OPTION_PATTERNS } from './publicApi';
+import { READING_LIMIT } from './readingQuota';
+import { parseSeed } from './rng';
+import { parseDeckPool, getPoolCardIds } from './deckPool';
+import { parseReversalPolicy } from './reversalPolicy';
+import { parseShuffleRitual } from './deckRitual';
+import { startDeal, cutDeal, dealtCard } from './deal';
+
+const ORIGIN = 'https://tarot.test';
+const openApi = buildOpenApiDocument(ORIGIN);
+const schemas = openApi.components.schemas;
+
+// Each call comes from a new address so the draws don't share a quota
+let lastAddress = 0;
+
+async function call(route: APIRoute, path: string, body: unknown, clientAddress = `10.0.0.${++lastAddress}`) {
+  const request = new Request(`${ORIGIN}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  const context = {
+    request,
+    url: new URL(request.url),
+    cookies: { get: () => undefined, set: () => {} },
+    clientAddress,
+  } as unknown as APIContext;
+  const response = await route(context);
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
+
+const postDraw = (body: unknown, clientAddress?: string) => call(draw, '/api/draw', body, clientAddress);
+const postAnalyze = (body: unknown) => call(analyze, '/api/analyze', body);
+
+// Every status a route returns must be in the document
+function expectDocumented(path: '/api/draw' | '/api/analyze', status: number) {
+  expect(Object.keys(openApi.paths[path].post.responses)).toContain(String(status));
+}
+
+function expectError(response: { status: number; body: unknown }, status: number, path: '/api/draw' | '/api/analyze') {
+  expect(response.status).toBe(status);
+  expect(response.body).toEqual({ error: expect.any(String) });
+  expectDocumented(path, status);
+}
+
+const VALID = {
+  pool: ['majors', 'wands', 'cups', 'swords', 'pentacles', 'c0.5.12', 'c77.1.2.3'],
+  rev: ['upright', 'majors', 'challenge', 'p0', 'p7', 'p50', 'p100'],
+  ritual: ['quick', 'cut', 'pick', 'riffle1', 'riffle7', 'overhand12'],
+};
+
+const INVALID = {
+  pool: ['', 'full', 'Majors', 'coins', 'c', 'c1..2', 'c1.1.2', 'c1.2.78', 'c-1.2.3'],
+  rev: ['', 'p', 'p101', 'p-5', 'p5.5', 'reversed', 'UPRIGHT'],
+  ritual: ['', 'riffle', 'riffle0', 'riffle13', 'overhand99', 'shuffle', 'cut3'],
+};
+
+describe('POST /api/draw', () => {
+  it('deals a spread in the documented shape', async () => {
+    const { status, body } = await postDraw({ spreadId: '3-card-basic', seed: 'abc', pool: 'majors', rev: 'upright' });
+    expect(status).toBe(200);
+    expectDocumented('/api/draw', 200);
+    expect(Object.keys(body).sort()).toEqual([...schemas.Draw.required].sort());
+    expect(body.seed).toBe('abc');
+    expect(body.cards).toHaveLength(3);
+    for (const card of body.cards) {
+      expect(card.card.id).toBeLessThan(22);
+      expect(card.reversed).toBe(false);
+    }
+    expect(body.resultUrl.startsWith(`${ORIGIN}/result/`)).toBe(true);
+  });
+
+  it('deals the same cards for the same seed and options', async () => {
+    const request = { spreadId: '10-card-celtic', seed: 'zz9', rev: 'p30', ritual: 'riffle7' };
+    expect((await postDraw(request)).body).toEqual((await postDraw(request)).body);
+  });
+
+  it('deals the cards the app deals from the same seed', async () => {
+    for (const [spreadId, pool, rev, ritual] of [
+      ['10-card-celtic', 'c0.1.2.3.4.5.6.7.8.9.10.11.12', 'p50', 'riffle7'],
+      ['5-card-deeper', 'majors', 'challenge', 'quick'],
+      ['3-card-basic', 'cups', 'p100', 'cut'],
+      ['3-card-basic', 'swords', 'majors', 'pick'],
+    ]) {
+      const { body } = await postDraw({ spreadId, seed: 'q7', pool, rev, ritual });
+      let deal = await startDeal({
+        spreadId,
+        poolIds: getPoolCardIds(parseDeckPool(pool)!),
+        policy: parseReversalPolicy(rev)!,
+        ritual: parseShuffleRitual(ritual)!,
+      }, parseSeed('q7')!);
+      if (deal.piles) deal = await cutDeal(deal, deal.piles.map((_, i) => i));
+      const dealt = body.cards.map((_: unknown, i: number) => dealtCard(deal, i, i));
+      expect(body.cards.map((c: { card: { id: number }; reversed: boolean }) => ({ cardId: c.card.id, reversed: c.reversed })), ritual)
+        .toEqual(dealt);
+    }
+  });
+
+  for (const key of ['pool', 'rev', 'ritual'] as const) {
+    it(`accepts every documented ${key}`, async () => {
+      for (const value of VALID[key]) {
+        expect(value).toMatch(new RegExp(schemas.DrawRequest.properties[key].pattern));
+        expect((await postDraw({ spreadId: '3-card-basic', [key]: value })).status, value).toBe(200);
+      }
+    });
+
+    it(`rejects an invalid ${key} with 400`, async () => {
+      for (const value of [...INVALID[key], 7, true]) {
+        if (typeof value === 'string' && value !== 'c1.1.2' && value !== 'c1.2.78') {
+          expect(value).not.toMatch(new RegExp(OPTION_PATTERNS[key]));
+        }
+        expectError(await postDraw({ spreadId: '3-card-basic', [key]: value }), 400, '/api/draw');
+      }
+    });
+  }
+
+  it('rejects an invalid seed with 400', async () => {
+    for (const seed of ['', 'not a seed', '12345678', 42]) {
+      expectError(await postDraw({ spreadId: '3-card-basic', seed }), 400, '/api/draw');
+    }
+  });
+
+  it('rejects a pool too small for the spread', async () => {
+    expectError(await postDraw({ spreadId: '10-card-celtic', pool: 'c0.1.2' }), 400, '/api/draw');
+  });
+
+  it('rejects a body that is not a JSON object', async () => {
+    expectError(await postDraw('{not json'), 400, '/api/draw');
+    expectError(await postDraw([1, 2]), 400, '/api/draw');
+  });
+
+  it('returns 404 for an unknown spread', async () => {
+    expectError(await postDraw({ spreadId: 'no-such-spread' }), 404, '/api/draw');
+  });
+
+  it('returns 429 once the caller has used up their readings', async () => {
+    const address = '192.0.2.1';
+    for (let i = 0; i < READING_LIMIT; i++) {
+      expect((await postDraw({ spreadId: '1-card' }, address)).status).toBe(200);
+    }
+    const response = await postDraw({ spreadId: '1-card' }, address);
+    expect(response.status).toBe(429);
+    expectDocumented('/api/draw', 429);
+    expect(Object.keys(response.body).sort()).toEqual([...schemas.QuotaExceeded.required].sort());
+    expect(response.body.quota).toMatchObject({ allowed: false, remaining: 0, limit: READING_LIMIT });
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+
+  it('does not use a reading for a rejected request', async () => {
+    const address = '192.0.2.2';
+    for (let i = 0; i <= READING_LIMIT; i++) {
+      expect((await postDraw({ spreadId: '1-card', rev: 'sideways' }, address)).status).toBe(400);
+    }
+    expect((await postDraw({ spreadId: '1-card' }, address)).status).toBe(200);
+  });
+});
+
+describe('POST /api/analyze', () => {
+  const cards = [{ cardId: 0 }, { cardId: 1, reversed: true }, { cardId: 2 }];
+
+  it('analyzes a reading in the documented shape', async () => {
+    const { status, body } = await postAnalyze({ spreadId: '3-card-basic', cards, pool: 'majors', mode: 'reading' });
+    expect(status).toBe(200);
+    expectDocumented('/api/analyze', 200);
+    for (const key of schemas.Analysis.required) expect(body).toHaveProperty(key);
+  });
+
+  it('answers yes/no questions', async () => {
+    const { status, body } = await postAnalyze({ spreadId: '3-card-basic', cards, mode: 'yesno', question: 'Will it rain?' });
+    expect(status).toBe(200);
+    expect(['yes', 'no', 'maybe']).toContain(body.yesNo.answer);
+  });
+
+  it('rejects an invalid pool or mode with 400', async () => {
+    for (const pool of [...INVALID.pool, 3]) {
+      expectError(await postAnalyze({ spreadId: '3-card-basic', cards, pool }), 400, '/api/analyze');
+    }
+    for (const mode of ['', 'tarot', 'YESNO', false]) {
+      expect(schemas.AnalyzeRequest.properties.mode.enum).not.toContain(mode);
+      expectError(await postAnalyze({ spreadId: '3-card-basic', cards, mode }), 400, '/api/analyze');
+    }
+  });
+
+  it('rejects cards outside the pool, repeats and the wrong count', async () => {
+    expectError(await postAnalyze({ spreadId: '3-card-basic', cards, pool: 'cups' }), 400, '/api/analyze');
+    expectError(await postAnalyze({ spreadId: '3-card-basic', cards: [cards[0], cards[0], cards[1]] }), 400, '/api/analyze');
+    expectError(await postAnalyze({ spreadId: '3-card-basic', cards: cards.slice(1) }), 400, '/api/analyze');
+    expectError(await postAnalyze({ spreadId: '3-card-basic', cards: [{ cardId: 78 }, ...cards.slice(1)] }), 400, '/api/analyze');
+  });
+
+  it('returns 404 for an unknown spread', async () => {
+    expectError(await postAnalyze({ spreadId: 'no-such-spread', cards }), 404, '/api/analyze');
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Public JSON API helpers — responses, request parsing and the draw/analyze
+ * logic shared by the routes under src/pages/api/ (documented in openApi.ts)
+ *
+ * Every route takes a language from the `lang` query parameter (or a `lang`
+ * body field for POST), then the language cookie and Accept-Language.
+ */
+
+import type { SupportedLanguage } from '../types/i18n';
+import type { DrawnCard, TarotCard, TarotSpread } from '../types/tarot';
+import type { FullReadingAnalysis } from '../types/reading';
+import type { QuotaStatus } from './readingQuota';
+import { detectLanguage } from './i18nServer';
+import { loadCards, loadSpreads } from './loadData';
+import { generateSeed, formatSeed, parseSeed } from './rng';
+import { parseShuffleRitual, formatShuffleRitual, type ShuffleRitual } from './deckRitual';
+import { parseReversalPolicy, formatReversalPolicy, type ReversalPolicy } from './reversalPolicy';
+import { shuffleForDeal, dealtCard } from './deal';
+import { parseDeckPool, formatDeckPool, getPoolCardIds, poolContainsAll, SUITS, type DeckPool } from './deckPool';
+import { buildResultPath } from './readingCodec';
+import { analyzeReading } from './readingAnalyzer';
+import { parseReadingMode, supportsYesNo } from './yesNo';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const MAX_QUESTION_LENGTH = 1000;
+
+/**
+ * Accepted spellings of the options that use the app's URL formats.
+ * The OpenAPI document publishes the same patterns.
+ */
+export const OPTION_PATTERNS = {
+  pool: `^(?:majors|${SUITS.join('|')}|c\\d+(?:\\.\\d+)*)$`,
+  rev: '^(?:upright|majors|challenge|p(?:100|[1-9]?\\d))$',
+  ritual: '^(?:quick|cut|pick|(?:riffle|overhand)(?:[1-9]|1[0-2]))$',
+  mode: '^(?:reading|yesno)$',
+};
+
+export type ApiBody = Record<string, unknown>;
+
+/** A request the API can't serve — turned into a JSON error response */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// ── Responses ─────────────────────────────────────────────────────────────────
+
+/**
+ * JSON response with CORS headers. `maxAge` (seconds) makes it cacheable.
+ */
+export function apiJson(body: unknown, status = 200, maxAge?: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...CORS_HEADERS,
+      'Content-Type': 'application/json; charset=utf-8',
+      'Cache-Control': maxAge ? `public, max-age=${maxAge}` : 'no-store',
+    },
+  });
+}
+
+/**
+ * `{ "error": message }` with the given status
+ */
+export function apiError(status: number, message: string): Response {
+  return apiJson({ error: message }, status);
+}
+
+/**
+ * 429 once the caller's readings are used up, with their quota and when to retry
+ */
+export function apiQuotaExceeded(quota: QuotaStatus): Response {
+  const response = apiJson({ error: quota.message, quota }, 429);
+  if (quota.resetsInHours !== null) response.headers.set('Retry-After', String(quota.resetsInHours * 60 * 60));
+  return response;
+}
+
+/**
+ * Answer CORS preflight requests
+ */
+export function apiPreflight(): Response {
+  return new Response(null, { status: 204, headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' } });
+}
+
+/**
+ * Run a route handler, turning ApiErrors into error responses
+ */
+export async function handleApi(handler: () => Response | Promise<Response>): Promise<Response> {
+  try {
+    return await handler();
+  } catch (error) {
+    if (error instanceof ApiError) return apiError(error.status, error.message);
+    console.error('API error:', error);
+    return apiError(500, 'Internal error');
+  }
+}
+
+// ── Requests ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a JSON object body
+ */
+export async function readJsonBody(request: Request): Promise<ApiBody> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(400, 'Expected a JSON body');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError(400, 'Expected a JSON object');
+  }
+  return body as ApiBody;
+}
+
+/**
+ * The language for this request; a `lang` body field wins over the query
+ */
+export function apiLanguage(request: Request, body?: ApiBody): SupportedLanguage {
+  if (body?.lang === 'en' || body?.lang === 'vi') return body.lang;
+  return detectLanguage(request);
+}
+
+function optionalString(body: ApiBody, key: string): string | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new ApiError(400, `"${key}" must be a string`);
+  return value;
+}
+
+/**
+ * Read an option in its URL format. The URL parsers quietly fall back to the
+ * default for values they don't recognise; the API rejects them instead.
+ */
+function urlOption<T>(
+  body: ApiBody,
+  key: keyof typeof OPTION_PATTERNS,
+  parse: (value: string | undefined) => T,
+  expected: string
+): T {
+  const value = optionalString(body, key);
+  if (value !== undefined && !new RegExp(OPTION_PATTERNS[key]).test(value)) {
+    throw new ApiError(400, `"${key}" must be ${expected}`);
+  }
+  return parse(value);
+}
+
+const POOL_FORMATS = 'majors, a suit name, or distinct card IDs from 0 to 77 like c0.5.12';
+
+// Custom pools must also list real, distinct cards; the URL parser drops the rest
+function readPool(body: ApiBody): DeckPool {
+  const pool = urlOption(body, 'pool', parseDeckPool, POOL_FORMATS);
+  if (pool.mode === 'custom' && pool.cardIds.length !== (body.pool as string).split('.').length) {
+    throw new ApiError(400, `"pool" must be ${POOL_FORMATS}`);
+  }
+  return pool;
+}
+
+/**
+ * Find a spread by ID in the request language
+ */
+export function requireSpread(spreadId: unknown, lang: SupportedLanguage): TarotSpread {
+  const spread = typeof spreadId === 'string' ? loadSpreads(lang).find(s => s.id === spreadId) : undefined;
+  if (!spread) throw new ApiError(404, `Unknown spread "${String(spreadId)}"`);
+  return spread;
+}
+
+/**
+ * A card with its image as an absolute URL, for clients off this site
+ */
+export function toApiCard(card: TarotCard, origin: string): TarotCard {
+  return { ...card, image: new URL(card.image, origin).href };
+}
+
+// ── Draw ──────────────────────────────────────────────────────────────────────
+
+export interface ApiDrawnCard {
+  position: number;
+  positionName: string;
+  reversed: boolean;
+  card: TarotCard;
+}
+
+export interface ApiDraw {
+  spreadId: string;
+  seed: string;
+  cards: ApiDrawnCard[];
+  /** Result page for this draw, opened in the app */
+  resultUrl: string;
+}
+
+/**
+ * Draw options in the same formats as the app's URL parameters:
+ * seed (base36), pool, rev and ritual
+ */
+export interface DrawOptions {
+  spread: TarotSpread;
+  question?: string;
+  /** Undefined for a fresh shuffle */
+  seed?: number;
+  pool: DeckPool;
+  policy: ReversalPolicy;
+  ritual: ShuffleRitual;
+  poolIds: number[];
+}
+
+/**
+ * Read and check the options shared by /api/draw and /api/deal
+ */
+export function parseDrawOptions(body: ApiBody, lang: SupportedLanguage): DrawOptions {
+  const spread = requireSpread(body.spreadId, lang);
+  const question = optionalString(body, 'question')?.trim();
+  if (question && question.length > MAX_QUESTION_LENGTH) {
+    throw new ApiError(400, `"question" can be at most ${MAX_QUESTION_LENGTH} characters`);
+  }
+
+  const seedValue = optionalString(body, 'seed');
+  const seed = seedValue === undefined ? undefined : parseSeed(seedValue);
+  if (seed === null) throw new ApiError(400, '"seed" must be a base36 number up to 7 characters');
+
+  const pool = readPool(body);
+  const policy = urlOption(body, 'rev', parseReversalPolicy, 'upright, majors, challenge, or p0 to p100');
+  const ritual = urlOption(body, 'ritual', parseShuffleRitual, 'quick, cut, pick, or riffle or overhand with 1 to 12 passes, like riffle7');
+  const poolIds = getPoolCardIds(pool);
+  if (poolIds.length < spread.cardCount) {
+    throw new ApiError(400, `The pool has ${poolIds.length} cards; this spread needs ${spread.cardCount}`);
+  }
+
+  return { spread, question: question || undefined, seed, pool, policy, ritual, poolIds };
+}
+
+/**
+ * Shuffle and deal a spread. Cut and pick rituals are interactive in the app;
+ * here they deal from the top like a quick shuffle.
+ */
+export function drawSpread(options: DrawOptions, lang: SupportedLanguage, origin: string): ApiDraw {
+  const { spread, question, pool, policy, ritual, poolIds } = options;
+  const seed = options.seed ?? generateSeed();
+  const cardsData: TarotCard[] = loadCards(lang);
+  // Shuffled and oriented as the wizard deals the seed. Nobody cuts or picks
+  // here, so the cards come off the top: a cut restacked in pile order, then
+  // a pick of the first card for each position.
+  const deck = { ...shuffleForDeal({ spreadId: spread.id, poolIds, policy, ritual }, seed), spreadId: spread.id, policy };
+  const cards = spread.positions.map((position, index) => {
+    const { cardId, reversed } = dealtCard(deck, index, index);
+    return { position: position.position, positionName: position.name, reversed, card: toApiCard(cardsData[cardId], origin) };
+  });
+
+  const params = new URLSearchParams();
+  const poolParam = formatDeckPool(pool);
+  if (poolParam) params.set('pool', poolParam);
+  const revParam = formatReversalPolicy(policy);
+  if (revParam) params.set('rev', revParam);
+  const ritualParam = formatShuffleRitual(ritual);
+  if (ritualParam) params.set('ritual', ritualParam);
+  params.set('lang', lang);
+  const path = buildResultPath({
+    spreadId: spread.id,
+    cards: cards.map(c => ({ cardId: c.card.id, reversed: c.reversed })),
+    seed,
+    question,
+  });
+
+  return {
+    spreadId: spread.id,
+    seed: formatSeed(seed),
+    cards,
+    resultUrl: new URL(`${path}?${params}`, origin).href,
+  };
+}
+
+// ── Analyze ───────────────────────────────────────────────────────────────────
+
+/**
+ * Run the reading analyzer on a client-supplied draw:
+ * { spreadId, cards: [{ cardId, reversed }], question?, pool?, mode? }
+ */
+export function analyzeSpread(body: ApiBody, lang: SupportedLanguage): FullReadingAnalysis {
+  const spread = requireSpread(body.spreadId, lang);
+  const question = optionalString(body, 'question') ?? '';
+  const pool = readPool(body);
+  const mode = urlOption(body, 'mode', parseReadingMode, 'reading or yesno');
+  const cardsData: TarotCard[] = loadCards(lang);
+
+  if (mode === 'yesno' && !supportsYesNo(spread.cardCount)) {
+    throw new ApiError(400, 'Yes/no mode needs a one- or three-card spread');
+  }
+
+  if (!Array.isArray(body.cards) || body.cards.length !== spread.cardCount) {
+    throw new ApiError(400, `"cards" must list ${spread.cardCount} cards for this spread`);
+  }
+  const drawn: DrawnCard[] = body.cards.map((entry, index) => {
+    const { cardId, reversed } = (entry ?? {}) as ApiBody;
+    if (typeof cardId !== 'number' || !cardsData[cardId] || (reversed !== undefined && typeof reversed !== 'boolean')) {
+      throw new ApiError(400, `cards[${index}] must be { "cardId": 0-${cardsData.length - 1}, "reversed": boolean }`);
+    }
+    return { card: cardsData[cardId], position: index + 1, reversed: reversed === true };
+  });
+
+  const cardIds = drawn.map(dc => dc.card.id);
+  if (new Set(cardIds).size !== cardIds.length) throw new ApiError(400, 'A card can only be drawn once');
+  if (!poolContainsAll(pool, cardIds)) throw new ApiError(400, 'Some cards are not in the given pool');
+
+  return analyzeReading(drawn, spread, question, { pool, lang, mode });
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { detectCategory, matchCategory } from './questionCategory';
+import { loadSpreads } from './loadData';
+
+const spread = (id: string) => loadSpreads('en').find(s => s.id === id)!;
+
+describe('matchCategory', () => {
+  it('matches English and Vietnamese keywords, ignoring case', () => {
+    expect(matchCategory('Will I get the PROMOTION?')).toBe('work');
+    expect(matchCategory('Does my partner still care?')).toBe('love');
+    expect(matchCategory('How can I ease my anxiety?')).toBe('health');
+    expect(matchCategory('What is my soul asking of me?')).toBe('spirituality');
+    expect(matchCategory('Tình hình tài chính của tôi?')).toBe('work');
+    expect(matchCategory('Người yêu tôi nghĩ gì?')).toBe('love');
+    expect(matchCategory('Sức khỏe của mẹ tôi thế nào?')).toBe('health');
+    expect(matchCategory('Tôi nên thiền thế nào?')).toBe('spirituality');
+  });
+
+  it('takes the first category in keyword order when several match', () => {
+    expect(matchCategory('Should I move for my partner or for the job?')).toBe('work');
+  });
+
+  it('returns null for blank or unmatched text', () => {
+    expect(matchCategory('')).toBeNull();
+    expect(matchCategory('   ')).toBeNull();
+    expect(matchCategory('What should I focus on today?')).toBeNull();
+  });
+});
+
+describe('detectCategory', () => {
+  it('prefers the question over the spread', () => {
+    expect(detectCategory('Will my partner call?', spread('10-card-career'))).toBe('love');
+  });
+
+  it('falls back to the spread, then to general', () => {
+    expect(detectCategory('', spread('10-card-career'))).toBe('work');
+    expect(detectCategory('What should I focus on today?', spread('5-card-health'))).toBe('health');
+    expect(detectCategory('What should I focus on today?', spread('1-card'))).toBe('general');
+    expect(detectCategory('')).toBe('general');
+  });
+});
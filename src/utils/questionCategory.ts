@@ -0,0 +1,62 @@
+/**
+ * Question categories — which life area a reading is about
+ * Used to highlight the matching meaning on the result page and to group
+ * journal statistics.
+ */
+
+export type MeaningCategory = 'work' | 'love' | 'health' | 'spirituality' | 'general';
+
+export const CATEGORY_KEYWORDS: Record<Exclude<MeaningCategory, 'general'>, string[]> = {
+  work: [
+    'work', 'job', 'career', 'business', 'professional', 'office', 'boss', 'promotion',
+    'salary', 'money', 'finance', 'income', 'wealth', 'invest', 'project',
+    // Vietnamese
+    'công việc', 'nghề', 'kinh doanh', 'sự nghiệp', 'tiền', 'tài chính',
+  ],
+  love: [
+    'love', 'relationship', 'partner', 'marriage', 'dating', 'romance', 'heart',
+    'boyfriend', 'girlfriend', 'husband', 'wife', 'crush', 'breakup', 'divorce', 'moving on',
+    // Vietnamese
+    'tình yêu', 'yêu', 'người yêu', 'hôn nhân', 'bạn trai', 'bạn gái', 'chia tay',
+  ],
+  health: [
+    'health', 'sick', 'illness', 'body', 'medical', 'doctor', 'fitness', 'pain',
+    'anxiety', 'stress', 'mental', 'physical', 'wellbeing', 'heal', 'well-being',
+    // Vietnamese
+    'sức khỏe', 'bệnh', 'khỏe', 'thể chất', 'tinh thần',
+  ],
+  spirituality: [
+    'spirit', 'spiritual', 'soul', 'meditation', 'purpose', 'meaning', 'faith',
+    'universe', 'energy', 'intuition', 'growth', 'inner', 'higher self', 'shadow', 'inner child',
+    // Vietnamese
+    'tâm linh', 'linh hồn', 'thiền', 'vũ trụ', 'nội tâm', 'ý nghĩa',
+  ],
+};
+
+/**
+ * Match free text against the category keywords
+ */
+export function matchCategory(text: string): MeaningCategory | null {
+  if (!text.trim()) return null;
+  const lower = text.toLowerCase();
+  for (const [cat, kws] of Object.entries(CATEGORY_KEYWORDS) as [Exclude<MeaningCategory, 'general'>, string[]][]) {
+    if (kws.some(kw => lower.includes(kw))) return cat;
+  }
+  return null;
+}
+
+/**
+ * Detect the most relevant category for a reading.
+ * 1. Try the question first (highest priority)
+ * 2. Fall back to spread id + name + description (lower priority)
+ */
+export function detectCategory(
+  question: string,
+  spread?: { id: string; name: string; description: string }
+): MeaningCategory {
+  return (
+    matchCategory(question) ??
+    (spread ? matchCategory(`${spread.id} ${spread.name} ${spread.description}`) : null) ??
+    'general'
+  );
+}
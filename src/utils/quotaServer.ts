@@ -0,0 +1,107 @@
+/**
+ * Server-side reading quota wiring — session cookie and store selection
+ * Only import this from SSR pages and API routes (it uses node:fs).
+ *
+ * Store is chosen by environment:
+ *   QUOTA_STORE=memory (default) — per server instance
+ *   QUOTA_STORE=file              — JSON file at QUOTA_FILE (default .quota.json), for local development
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import type { AstroCookies } from 'astro';
+import { createMemoryQuotaStore, takeReading, type QuotaStore } from './readingQuota';
+
+export const SESSION_COOKIE = 'tarot_session';
+
+const SESSION_MAX_AGE = 60 * 60 * 24 * 365; // One year, in seconds
+const SESSION_PATTERN = /^[0-9a-f-]{36}$/;
+
+/**
+ * A JSON object in a file. Writes are serialized so concurrent requests
+ * don't overwrite each other within one process.
+ */
+function createJsonFile<T>(path: string) {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<Record<string, T>> => {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch {
+      return {};
+    }
+  };
+
+  return {
+    read: async () => {
+      await queue;
+      return load();
+    },
+    update: <R>(change: (data: Record<string, T>) => R): Promise<R> => {
+      const write = queue.then(async () => {
+        const data = await load();
+        const result = change(data);
+        await writeFile(path, JSON.stringify(data));
+        return result;
+      });
+      queue = write.catch(() => {});
+      return write;
+    },
+  };
+}
+
+/**
+ * JSON file quota store. Readings are used inside the file's serialized
+ * update, so the check and the write can't interleave within one process.
+ */
+export function createFileQuotaStore(path: string): QuotaStore {
+  const file = createJsonFile<number[]>(path);
+  return {
+    get: async (sessionId) => (await file.read())[sessionId] ?? [],
+    consume: (sessionId, now) => file.update(data => {
+      const update = takeReading(data[sessionId] ?? [], now);
+      data[sessionId] = update.timestamps;
+      return update;
+    }),
+  };
+}
+
+let store: QuotaStore | null = null;
+
+/**
+ * The quota store for this server process
+ */
+export function getQuotaStore(): QuotaStore {
+  store ??= import.meta.env.QUOTA_STORE === 'file'
+    ? createFileQuotaStore(import.meta.env.QUOTA_FILE || '.quota.json')
+    : createMemoryQuotaStore();
+  return store;
+}
+
+/**
+ * Get the visitor's anonymous session ID, issuing a cookie if they have none
+ */
+export function getSessionId(cookies: AstroCookies): string {
+  const existing = cookies.get(SESSION_COOKIE)?.value;
+  if (existing && SESSION_PATTERN.test(existing)) return existing;
+
+  const sessionId = crypto.randomUUID();
+  cookies.set(SESSION_COOKIE, sessionId, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: import.meta.env.PROD,
+    maxAge: SESSION_MAX_AGE,
+  });
+  return sessionId;
+}
+
+/**
+ * Whose quota a request uses: the visitor's session if they already have one,
+ * otherwise their address — so API callers, and clients that drop the cookie,
+ * can't start afresh with every request. Call before getSessionId, which
+ * issues a cookie.
+ */
+export function getQuotaKey(cookies: AstroCookies, clientAddress: string): string {
+  const existing = cookies.get(SESSION_COOKIE)?.value;
+  return existing && SESSION_PATTERN.test(existing) ? existing : `ip:${clientAddress}`;
+}
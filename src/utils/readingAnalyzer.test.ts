@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawnCard, TarotCard } from '../types/tarot';
+import { loadCards, loadSpreads } from './loadData';
+import { analyzeReading } from './readingAnalyzer';
+
+const cards: TarotCard[] = loadCards('en');
+const spread = loadSpreads('en').find(s => s.id === '3-card-basic')!;
+
+function secondaryThemes(readingCards: TarotCard[]): string[] {
+  const drawn: DrawnCard[] = readingCards.map((card, index) => ({ card, position: index + 1, reversed: false }));
+  return analyzeReading(drawn, spread, '', { lang: 'en' }).theme.secondaryThemes;
+}
+
+describe('secondary themes', () => {
+  const [fool, magician, emperor, lovers, chariot, hermit] = [0, 1, 4, 6, 7, 9].map(id => cards[id]);
+
+  it('come from the Lovers, the Chariot and the Emperor', () => {
+    expect(secondaryThemes([fool, lovers, hermit])).toEqual(['Relationships']);
+    expect(secondaryThemes([fool, emperor, hermit])).toEqual(['Career & Success']);
+    expect(secondaryThemes([fool, lovers, chariot])).toEqual(['Relationships', 'Career & Success']);
+    expect(secondaryThemes([fool, magician, hermit])).toEqual([]);
+  });
+
+  it('match cards by slug, whatever their name', () => {
+    const renamed = [lovers, chariot].map(card => ({ ...card, name: 'Renamed' }));
+    expect(secondaryThemes([fool, ...renamed])).toEqual(['Relationships', 'Career & Success']);
+    expect(secondaryThemes([fool, { ...magician, name: 'The Lovers' }, { ...hermit, name: 'The Emperor' }])).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import spreadsData from '../data/spreads.json';
+import { createSeededSource, drawCards, formatSeed } from './rng';
+import {
+  encodeReading,
+  decodeReading,
+  buildResultPath,
+  decodeResultPath,
+  READING_CODEC_VERSION,
+  type EncodedReading,
+} from './readingCodec';
+
+const DECK = Array.from({ length: 78 }, (_, i) => i);
+
+// A reading for a spread with a given reversal pattern
+function readingFor(spreadId: string, cardCount: number, seed: number, reversed: (index: number) => boolean): EncodedReading {
+  return {
+    spreadId,
+    cards: drawCards(DECK, cardCount, createSeededSource(seed)).map((cardId, index) => ({ cardId, reversed: reversed(index) })),
+  };
+}
+
+const PATTERNS: Array<[string, (index: number) => boolean]> = [
+  ['all upright', () => false],
+  ['all reversed', () => true],
+  ['alternating', index => index % 2 === 1],
+];
+
+describe('encodeReading / decodeReading', () => {
+  for (const spread of spreadsData) {
+    describe(spread.id, () => {
+      for (const [name, pattern] of PATTERNS) {
+        it(`round-trips ${name}`, () => {
+          const reading = readingFor(spread.id, spread.cardCount, spread.cardCount * 31, pattern);
+          expect(decodeReading(encodeReading(reading))).toEqual(reading);
+        });
+      }
+
+      it('round-trips with a seed, a question and clarifiers in the path', () => {
+        const reading = {
+          ...readingFor(spread.id, spread.cardCount, 7, index => index % 3 === 0),
+          seed: 0xfedcba98,
+          question: 'Tôi có nên đổi việc không? 🌙',
+        };
+        const path = buildResultPath(reading, '1.45.0');
+        expect(decodeResultPath(path.slice('/result/'.length))).toEqual({
+          reading,
+          clarifierSegment: '1.45.0',
+          legacy: false,
+        });
+      });
+    });
+  }
+
+  it('keeps the highest card ID and a zero seed', () => {
+    const reading: EncodedReading = { spreadId: '1-card', cards: [{ cardId: 77, reversed: true }], seed: 0 };
+    expect(decodeReading(encodeReading(reading))).toEqual(reading);
+  });
+
+  it('drops a blank question', () => {
+    const reading: EncodedReading = { spreadId: '1-card', cards: [{ cardId: 3, reversed: false }] };
+    expect(encodeReading({ ...reading, question: '   ' })).toBe(encodeReading(reading));
+  });
+
+  it('starts with the codec version', () => {
+    const token = encodeReading({ spreadId: '1-card', cards: [{ cardId: 0, reversed: false }] });
+    expect(atob(token.replace(/-/g, '+').replace(/_/g, '/')).charCodeAt(0)).toBe(READING_CODEC_VERSION);
+  });
+
+  it('refuses readings the format cannot hold', () => {
+    expect(() => encodeReading({ spreadId: '1-card', cards: [{ cardId: 256, reversed: false }] })).toThrow(RangeError);
+    expect(() => encodeReading({ spreadId: '1-card', cards: [{ cardId: 1.5, reversed: false }] })).toThrow(RangeError);
+    expect(() => encodeReading({
+      spreadId: '1-card',
+      cards: [{ cardId: 0, reversed: false }],
+      question: 'x'.repeat(0x10000),
+    })).toThrow(RangeError);
+  });
+});
+
+describe('decodeReading', () => {
+  const token = encodeReading({
+    spreadId: '3-card-basic',
+    cards: [{ cardId: 10, reversed: false }, { cardId: 20, reversed: true }, { cardId: 30, reversed: false }],
+    seed: 99,
+    question: 'Hi',
+  });
+
+  it('rejects any changed character', () => {
+    for (let i = 0; i < token.length; i++) {
+      const changed = token.slice(0, i) + (token[i] === 'A' ? 'B' : 'A') + token.slice(i + 1);
+      expect(decodeReading(changed)).toBeNull();
+    }
+  });
+
+  it('rejects truncated, extended and malformed tokens', () => {
+    expect(decodeReading(token.slice(0, -1))).toBeNull();
+    expect(decodeReading(`${token}AA`)).toBeNull();
+    expect(decodeReading('')).toBeNull();
+    expect(decodeReading('not a token!')).toBeNull();
+  });
+});
+
+describe('decodeResultPath — legacy URLs', () => {
+  it('decodes the old multi-segment form', () => {
+    expect(decodeResultPath('3-card-basic/0-21-77/010')).toEqual({
+      reading: {
+        spreadId: '3-card-basic',
+        cards: [{ cardId: 0, reversed: false }, { cardId: 21, reversed: true }, { cardId: 77, reversed: false }],
+      },
+      clarifierSegment: undefined,
+      legacy: true,
+    });
+  });
+
+  it('takes the question and seed from the query string', () => {
+    const params = new URLSearchParams({ question: '  Will it rain?  ', seed: formatSeed(123456) });
+    expect(decodeResultPath('1-card/5/1', params)?.reading).toEqual({
+      spreadId: '1-card',
+      cards: [{ cardId: 5, reversed: true }],
+      question: 'Will it rain?',
+      seed: 123456,
+    });
+  });
+
+  it('ignores an invalid seed and a blank question', () => {
+    const params = new URLSearchParams({ question: ' ', seed: 'not-a-seed' });
+    expect(decodeResultPath('1-card/5/0', params)?.reading).toEqual({
+      spreadId: '1-card',
+      cards: [{ cardId: 5, reversed: false }],
+    });
+  });
+
+  it('keeps the clarifier segment', () => {
+    expect(decodeResultPath('3-card-basic/1-2-3/000/2.45.1')?.clarifierSegment).toBe('2.45.1');
+  });
+
+  it('reads missing reversal flags as upright', () => {
+    expect(decodeResultPath('3-card-basic/1-2-3')?.reading.cards.map(c => c.reversed)).toEqual([false, false, false]);
+    expect(decodeResultPath('3-card-basic/1-2-3/1')?.reading.cards.map(c => c.reversed)).toEqual([true, false, false]);
+  });
+
+  it('decodes every spread in the old form', () => {
+    for (const spread of spreadsData) {
+      const reading = readingFor(spread.id, spread.cardCount, 3, index => index % 2 === 0);
+      const cards = reading.cards.map(c => c.cardId).join('-');
+      const flags = reading.cards.map(c => (c.reversed ? '1' : '0')).join('');
+      expect(decodeResultPath(`${spread.id}/${cards}/${flags}`)?.reading).toEqual(reading);
+    }
+  });
+
+  it('rejects paths that are neither form', () => {
+    expect(decodeResultPath('')).toBeNull();
+    expect(decodeResultPath('3-card-basic')).toBeNull();
+    expect(decodeResultPath('3-card-basic/one-two/01')).toBeNull();
+    expect(decodeResultPath('3-card-basic/1--2/01')).toBeNull();
+    expect(decodeResultPath('3-card-basic/1-2-3/010/2.45.1/extra')).toBeNull();
+  });
+});
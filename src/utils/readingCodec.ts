@@ -0,0 +1,210 @@
+/**
+ * Reading URL codec — packs a reading into one short, versioned token
+ *
+ *   /result/{token}[/{clarifiers}]?pool=...&rev=...
+ *
+ * Token bytes (then base64url, no padding):
+ *   [version] [spread ID length] [spread ID, UTF-8]
+ *   [card count] [card ID]... [reversal bits, 1 bit per card, MSB first]
+ *   [flags: 1 = seed, 2 = question] [seed, 4 bytes]? [question length, 2 bytes] [question, UTF-8]?
+ *   [checksum, 2 bytes — Fletcher-16 over everything before it]
+ *
+ * The old form /result/{spreadId}/{1-2-3}/{010}[/{clarifiers}]?question=...&seed=...
+ * still decodes.
+ */
+
+import { parseSeed } from './rng';
+
+export const READING_CODEC_VERSION = 1;
+
+export interface EncodedReading {
+  spreadId: string;
+  cards: Array<{ cardId: number; reversed: boolean }>;
+  seed?: number;
+  question?: string;
+}
+
+/**
+ * A decoded /result/ path: the reading, any clarifier segment after it,
+ * and whether it came from the old multi-segment form
+ */
+export interface DecodedResultPath {
+  reading: EncodedReading;
+  clarifierSegment?: string;
+  legacy: boolean;
+}
+
+const FLAG_SEED = 1;
+const FLAG_QUESTION = 2;
+const MAX_QUESTION_BYTES = 0xffff;
+
+function fletcher16(bytes: Uint8Array): number {
+  let sum1 = 0;
+  let sum2 = 0;
+  for (const byte of bytes) {
+    sum1 = (sum1 + byte) % 255;
+    sum2 = (sum2 + sum1) % 255;
+  }
+  return (sum2 << 8) | sum1;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(token)) return null;
+  try {
+    const binary = atob(token.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+    // Reject spellings that differ only in unused trailing bits
+    return toBase64Url(bytes) === token ? bytes : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pack a reading into a token. Throws RangeError for readings the format
+ * can't hold (card IDs above 255, more than 255 cards, very long text).
+ */
+export function encodeReading(reading: EncodedReading): string {
+  const encoder = new TextEncoder();
+  const spreadBytes = encoder.encode(reading.spreadId);
+  const question = reading.question?.trim();
+  const questionBytes = question ? encoder.encode(question) : null;
+
+  if (spreadBytes.length > 255 || reading.cards.length > 255) {
+    throw new RangeError('encodeReading: spread ID or card list too long');
+  }
+  if (reading.cards.some(c => !Number.isInteger(c.cardId) || c.cardId < 0 || c.cardId > 255)) {
+    throw new RangeError('encodeReading: card IDs must be integers in [0, 255]');
+  }
+  if (questionBytes && questionBytes.length > MAX_QUESTION_BYTES) {
+    throw new RangeError('encodeReading: question too long');
+  }
+
+  const bytes: number[] = [READING_CODEC_VERSION, spreadBytes.length, ...spreadBytes, reading.cards.length];
+  bytes.push(...reading.cards.map(c => c.cardId));
+
+  const reversalBytes = new Array(Math.ceil(reading.cards.length / 8)).fill(0);
+  reading.cards.forEach((c, i) => {
+    if (c.reversed) reversalBytes[i >> 3] |= 0x80 >> (i & 7);
+  });
+  bytes.push(...reversalBytes);
+
+  const hasSeed = reading.seed !== undefined;
+  bytes.push((hasSeed ? FLAG_SEED : 0) | (questionBytes ? FLAG_QUESTION : 0));
+  if (hasSeed) {
+    const seed = reading.seed! >>> 0;
+    bytes.push(seed >>> 24, (seed >>> 16) & 0xff, (seed >>> 8) & 0xff, seed & 0xff);
+  }
+  if (questionBytes) {
+    bytes.push(questionBytes.length >> 8, questionBytes.length & 0xff, ...questionBytes);
+  }
+
+  const body = Uint8Array.from(bytes);
+  const checksum = fletcher16(body);
+  const token = new Uint8Array(body.length + 2);
+  token.set(body);
+  token[body.length] = checksum >> 8;
+  token[body.length + 1] = checksum & 0xff;
+  return toBase64Url(token);
+}
+
+/**
+ * Unpack a token. Returns null for anything malformed, an unknown version
+ * or a checksum mismatch.
+ */
+export function decodeReading(token: string): EncodedReading | null {
+  const bytes = fromBase64Url(token);
+  if (!bytes || bytes.length < 6) return null;
+
+  const body = bytes.subarray(0, bytes.length - 2);
+  const checksum = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+  if (fletcher16(body) !== checksum || body[0] !== READING_CODEC_VERSION) return null;
+
+  let offset = 1;
+  const take = (length: number): Uint8Array | null => {
+    if (offset + length > body.length) return null;
+    const slice = body.subarray(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  try {
+    const spreadLength = take(1)?.[0];
+    const spreadBytes = spreadLength !== undefined ? take(spreadLength) : null;
+    const count = take(1)?.[0];
+    if (!spreadBytes || !count) return null;
+
+    const cardIds = take(count);
+    const reversalBytes = take(Math.ceil(count / 8));
+    const flags = take(1)?.[0];
+    if (!cardIds || !reversalBytes || flags === undefined) return null;
+
+    const reading: EncodedReading = {
+      spreadId: decoder.decode(spreadBytes),
+      cards: Array.from(cardIds, (cardId, i) => ({
+        cardId,
+        reversed: (reversalBytes[i >> 3] & (0x80 >> (i & 7))) !== 0,
+      })),
+    };
+
+    if (flags & FLAG_SEED) {
+      const seed = take(4);
+      if (!seed) return null;
+      reading.seed = ((seed[0] << 24) | (seed[1] << 16) | (seed[2] << 8) | seed[3]) >>> 0;
+    }
+    if (flags & FLAG_QUESTION) {
+      const length = take(2);
+      const question = length ? take((length[0] << 8) | length[1]) : null;
+      if (!question) return null;
+      reading.question = decoder.decode(question);
+    }
+
+    return offset === body.length ? reading : null;
+  } catch {
+    return null; // Invalid UTF-8
+  }
+}
+
+/**
+ * Build the result page path for a reading
+ */
+export function buildResultPath(reading: EncodedReading, clarifierSegment?: string): string {
+  return `/result/${encodeReading(reading)}${clarifierSegment ? `/${clarifierSegment}` : ''}`;
+}
+
+/**
+ * Decode the part of a /result/ URL after "/result/" in either form.
+ * For the old form, question and seed come from the query string.
+ */
+export function decodeResultPath(params: string, searchParams?: URLSearchParams): DecodedResultPath | null {
+  const segments = params.split('/').filter(Boolean);
+
+  if (segments.length >= 1 && segments.length <= 2) {
+    const reading = decodeReading(segments[0]);
+    if (reading) return { reading, clarifierSegment: segments[1], legacy: false };
+  }
+
+  const [spreadId, cardIdsStr, reversedStr, clarifierSegment] = segments;
+  if (!spreadId || !cardIdsStr || segments.length > 4) return null;
+  if (!/^\d+(?:-\d+)*$/.test(cardIdsStr)) return null;
+
+  const cardIds = cardIdsStr.split('-').map(Number);
+
+  const reading: EncodedReading = {
+    spreadId,
+    cards: cardIds.map((cardId, index) => ({ cardId, reversed: reversedStr?.[index] === '1' })),
+  };
+  const question = searchParams?.get('question')?.trim();
+  if (question) reading.question = question;
+  const seed = parseSeed(searchParams?.get('seed'));
+  if (seed !== null) reading.seed = seed;
+
+  return { reading, clarifierSegment, legacy: true };
+}
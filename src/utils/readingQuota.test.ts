@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { APIContext, APIRoute } from 'astro';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  checkQuota,
+  consumeQuota,
+  createMemoryQuotaStore,
+  describeQuota,
+  READING_LIMIT,
+  RESET_HOURS,
+  type QuotaStore,
+} from './readingQuota';
+import { createFileQuotaStore } from './quotaServer';
+import { GET as getQuota } from '../pages/api/quota';
+import { POST as postDraw } from '../pages/api/draw';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+describe('describeQuota', () => {
+  it('counts only readings inside the window', () => {
+    const status = describeQuota([NOW - RESET_HOURS * HOUR, NOW - 2 * HOUR], NOW);
+    expect(status).toMatchObject({ allowed: true, remaining: READING_LIMIT - 1, resetsInHours: RESET_HOURS - 2 });
+    expect(status.message).toBe(`${READING_LIMIT - 1} readings left, resets in ${RESET_HOURS - 2} hours`);
+  });
+
+  it('has nothing to reset without readings', () => {
+    expect(describeQuota([], NOW)).toMatchObject({ remaining: READING_LIMIT, resetsInHours: null });
+  });
+});
+
+const tempFiles: string[] = [];
+afterEach(async () => {
+  await Promise.all(tempFiles.splice(0).map(path => rm(path, { force: true })));
+});
+
+const stores: Record<string, () => QuotaStore> = {
+  memory: createMemoryQuotaStore,
+  file: () => {
+    const path = join(tmpdir(), `tarot-quota-${crypto.randomUUID()}.json`);
+    tempFiles.push(path);
+    return createFileQuotaStore(path);
+  },
+};
+
+for (const [name, createStore] of Object.entries(stores)) {
+  describe(`consumeQuota (${name} store)`, () => {
+    it('refuses once the limit is reached and frees readings as they age out', async () => {
+      const store = createStore();
+      for (let i = 0; i < READING_LIMIT; i++) {
+        expect((await consumeQuota(store, 'session', NOW + i)).allowed).toBe(true);
+      }
+      expect(await consumeQuota(store, 'session', NOW + HOUR)).toMatchObject({ allowed: false, remaining: 0 });
+      expect((await checkQuota(store, 'other', NOW)).remaining).toBe(READING_LIMIT);
+      expect((await consumeQuota(store, 'session', NOW + RESET_HOURS * HOUR)).allowed).toBe(true);
+    });
+
+    it('never lets concurrent requests go over the limit', async () => {
+      const store = createStore();
+      const results = await Promise.all(
+        Array.from({ length: READING_LIMIT * 3 }, () => consumeQuota(store, 'session', NOW))
+      );
+      expect(results.filter(r => r.allowed)).toHaveLength(READING_LIMIT);
+      expect(await store.get('session')).toHaveLength(READING_LIMIT);
+    });
+  });
+}
+
+describe('GET /api/quota', () => {
+  const context = (request: Request, clientAddress: string) => ({
+    request,
+    url: new URL(request.url),
+    cookies: { get: () => undefined, set: () => {} },
+    clientAddress,
+  }) as unknown as APIContext;
+  const call = async (route: APIRoute, request: Request, clientAddress: string) =>
+    (await route(context(request, clientAddress))).json();
+
+  it('reports the quota the draw API uses for a caller without a session', async () => {
+    const address = '198.51.100.7';
+    const draw = new Request('https://tarot.test/api/draw', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ spreadId: '1-card' }),
+    });
+    await call(postDraw, draw, address);
+
+    const quota = new Request('https://tarot.test/api/quota');
+    expect((await call(getQuota, quota, address)).remaining).toBe(READING_LIMIT - 1);
+    expect((await call(getQuota, quota, '198.51.100.8')).remaining).toBe(READING_LIMIT);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Reading quota — how many readings a visitor can start per rolling window
+ * The server keeps one list of reading timestamps per anonymous session in a
+ * pluggable QuotaStore. Shared by the API route, SSR pages and the client.
+ */
+
+export const READING_LIMIT = 5; // Allow 5 readings per 24 hours
+export const RESET_HOURS = 24;
+
+const WINDOW_MS = RESET_HOURS * 60 * 60 * 1000;
+
+/**
+ * Where reading timestamps are kept, keyed by session ID
+ */
+export interface QuotaStore {
+  get(sessionId: string): Promise<number[]>;
+  /**
+   * Use one reading at `now` if any is left, checking and writing in one
+   * step so concurrent requests can't both take the last one (see takeReading)
+   */
+  consume(sessionId: string, now: number): Promise<QuotaUpdate>;
+}
+
+/**
+ * A session's timestamps after trying to use a reading
+ */
+export interface QuotaUpdate {
+  timestamps: number[];
+  consumed: boolean;
+}
+
+/**
+ * What the server tells the client about its quota
+ */
+export interface QuotaStatus {
+  allowed: boolean;
+  remaining: number;
+  limit: number;
+  /** Hours until the oldest reading in the window drops out (null if none) */
+  resetsInHours: number | null;
+  /** Plain-English summary, e.g. "3 readings left, resets in 5 hours" */
+  message: string;
+}
+
+/**
+ * Drop timestamps outside the window and add `now` if a reading is left.
+ * Stores run this inside their own atomic update.
+ */
+export function takeReading(timestamps: number[], now: number): QuotaUpdate {
+  const recent = timestamps.filter(ts => ts > now - WINDOW_MS);
+  return recent.length >= READING_LIMIT
+    ? { timestamps: recent, consumed: false }
+    : { timestamps: [...recent, now], consumed: true };
+}
+
+/**
+ * In-memory store. State lasts as long as the server process.
+ */
+export function createMemoryQuotaStore(): QuotaStore {
+  const sessions = new Map<string, number[]>();
+  return {
+    get: async (sessionId) => [...(sessions.get(sessionId) ?? [])],
+    // No await between the read and the write, so nothing can run in between
+    consume: async (sessionId, now) => {
+      const update = takeReading(sessions.get(sessionId) ?? [], now);
+      sessions.set(sessionId, update.timestamps);
+      return { ...update, timestamps: [...update.timestamps] };
+    },
+  };
+}
+
+/**
+ * Work out the quota from the timestamps still inside the window
+ */
+export function describeQuota(timestamps: number[], now: number = Date.now()): QuotaStatus {
+  const recent = timestamps.filter(ts => ts > now - WINDOW_MS);
+  const remaining = Math.max(0, READING_LIMIT - recent.length);
+  const resetsInHours = recent.length
+    ? Math.max(1, Math.ceil((Math.min(...recent) + WINDOW_MS - now) / (60 * 60 * 1000)))
+    : null;
+
+  const left = `${remaining} ${remaining === 1 ? 'reading' : 'readings'} left`;
+  const message = resetsInHours === null
+    ? left
+    : `${left}, resets in ${resetsInHours} ${resetsInHours === 1 ? 'hour' : 'hours'}`;
+
+  return { allowed: remaining > 0, remaining, limit: READING_LIMIT, resetsInHours, message };
+}
+
+/**
+ * Read a session's quota without using it
+ */
+export async function checkQuota(store: QuotaStore, sessionId: string, now: number = Date.now()): Promise<QuotaStatus> {
+  return describeQuota(await store.get(sessionId), now);
+}
+
+/**
+ * Use one reading from a session's quota if any is left.
+ * Returns the status after the attempt; `allowed` is false if it was refused.
+ */
+export async function consumeQuota(store: QuotaStore, sessionId: string, now: number = Date.now()): Promise<QuotaStatus> {
+  const { timestamps, consumed } = await store.consume(sessionId, now);
+  return { ...describeQuota(timestamps, now), allowed: consumed };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawnCard, TarotCard, TarotSpread } from '../types/tarot';
+import type { FullReadingAnalysis } from '../types/reading';
+import { loadCards, loadSpreads } from './loadData';
+import { analyzeReading } from './readingAnalyzer';
+import { formatReadingMarkdown, formatReadingPlainText, type ReadingTextOptions } from './readingText';
+
+const cards: TarotCard[] = loadCards('en');
+const spread = loadSpreads('en').find(s => s.id === '3-card-basic')!;
+const DATE = new Date('2026-03-14T12:00:00Z');
+
+// The Fool upright, The Magician reversed, The High Priestess with a reversed Three of Cups clarifying it
+const DRAWN: DrawnCard[] = [
+  { card: cards[0], position: 1, reversed: false },
+  { card: cards[1], position: 2, reversed: true },
+  { card: cards[2], position: 3, reversed: false, clarifier: { card: cards[38], reversed: true } },
+];
+
+const analysis = analyzeReading(DRAWN, spread, '', { lang: 'en' });
+
+function render(options: Partial<ReadingTextOptions> = {}, reading: FullReadingAnalysis = analysis, on: TarotSpread = spread) {
+  const full = { lang: 'en' as const, date: DATE, ...options };
+  return {
+    markdown: formatReadingMarkdown(reading, DRAWN, on, full),
+    text: formatReadingPlainText(reading, DRAWN, on, full),
+  };
+}
+
+describe('formatReadingMarkdown / formatReadingPlainText', () => {
+  it('lists each card by position, marking reversed cards and clarifiers', () => {
+    const { markdown, text } = render();
+    const [past, present, future] = spread.positions.map(p => p.name);
+    expect(markdown).toContain(
+      `1. **${past}:** The Fool\n` +
+      `2. **${present}:** The Magician (Reversed)\n` +
+      `3. **${future}:** The High Priestess — Clarifier: ${cards[38].name} (Reversed)\n`
+    );
+    expect(text).toContain(`2. ${present}: The Magician (Reversed)\n`);
+    expect(text).toContain(`3. ${future}: The High Priestess — Clarifier: ${cards[38].name} (Reversed)\n`);
+  });
+
+  it('labels cards in the reading language', () => {
+    const { markdown } = render({ lang: 'vi' });
+    expect(markdown).toContain('(Ngược)');
+    expect(markdown).toContain('## Các Lá Bài');
+  });
+
+  it('leaves out an empty or blank question', () => {
+    for (const question of [undefined, '', '   \n ']) {
+      const { markdown, text } = render({ question });
+      expect(markdown).toMatch(new RegExp(`^# ${spread.name}\\n\\n- \\*\\*Date:\\*\\* 2026-03-14\\n`));
+      expect(markdown).not.toContain('>');
+      expect(text).toMatch(new RegExp(`^${spread.name}\\n=+\\n\\n- Date: 2026-03-14\\n`));
+    }
+  });
+
+  it('quotes the question, escaping Markdown in Markdown only', () => {
+    const question = '# Will *she* call?\n1. or [text] <b>me</b>_first_ ~maybe~ `now` \\ back';
+    const { markdown, text } = render({ question });
+    expect(markdown).toContain(
+      '> \\# Will \\*she\\* call?\n' +
+      '> 1\\. or \\[text\\] \\<b\\>me\\</b\\>\\_first\\_ \\~maybe\\~ \\`now\\` \\\\ back\n'
+    );
+    expect(text).toContain(`"${question}"`);
+  });
+
+  it('keeps the analyzer\'s bold in the notes and escapes the rest', () => {
+    const reading = {
+      ...analysis,
+      synthesis: { ...analysis.synthesis, body: ['**The Fool** and *luck* [sic]', '- 3 + 4 = 7 > 5_'] },
+    };
+    const { markdown, text } = render({}, reading);
+    expect(markdown).toContain('## Reading Notes\n\n**The Fool** and \\*luck\\* \\[sic\\]\n\n\\- 3 + 4 = 7 \\> 5\\_\n');
+    expect(text).toContain('Reading Notes\n-------------\n\nThe Fool and *luck* [sic]\n\n- 3 + 4 = 7 > 5_\n');
+  });
+
+  it('escapes spread names in headings', () => {
+    const { markdown } = render({}, analysis, { ...spread, name: 'Past_Present_Future' });
+    expect(markdown.startsWith('# Past\\_Present\\_Future\n')).toBe(true);
+  });
+
+  it('ends with the reading link, unescaped', () => {
+    const url = 'https://tarot.test/result/3-card-basic/0_1r_2?q=a_b*c';
+    const { markdown, text } = render({ url });
+    expect(markdown.endsWith(`---\n\nReading: <${url}>\n`)).toBe(true);
+    expect(text.endsWith(`---\n\nReading: ${url}\n`)).toBe(true);
+  });
+
+  it('includes every section of the analysis', () => {
+    const { markdown } = render();
+    for (const beat of analysis.storyBeats) expect(markdown).toContain(`### ${beat.position.name} — `);
+    expect(markdown).toContain('## Closing Message');
+    expect(markdown).toContain('## Guidance');
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Reading text export — a FullReadingAnalysis as Markdown or plain text,
+ * for pasting into note apps like Obsidian and Notion
+ * The analyzer's **bold** markers are kept in Markdown and dropped in plain text.
+ * Everything else is escaped in Markdown, so a question like "# why *me*?"
+ * reads back as typed.
+ */
+
+import type { FullReadingAnalysis } from '../types/reading';
+import type { DrawnCard, TarotSpread } from '../types/tarot';
+import type { SupportedLanguage } from '../types/i18n';
+
+export interface ReadingTextOptions {
+  question?: string;
+  lang: SupportedLanguage;
+  /** Link back to the reading, added at the end */
+  url?: string;
+  /** Defaults to now */
+  date?: Date;
+}
+
+type Block =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string }
+  | { kind: 'paragraph'; text: string; italic?: boolean }
+  | { kind: 'quote'; text: string }
+  | { kind: 'list'; items: string[]; ordered?: boolean }
+  | { kind: 'rule' }
+  | { kind: 'link'; label: string; url: string };
+
+const LABELS = {
+  en: {
+    date: 'Date',
+    theme: 'Theme',
+    cards: 'Cards',
+    reversed: 'Reversed',
+    clarifier: 'Clarifier',
+    story: 'Your Story',
+    notes: 'Reading Notes',
+    numerology: 'Numerology',
+    astrology: 'Astrology',
+    conversations: 'Card Conversations',
+    closing: 'Closing Message',
+    guidance: 'Guidance',
+    link: 'Reading',
+    relationships: {
+      supporting: 'Supporting',
+      challenging: 'Challenging',
+      complementary: 'Complementary',
+      contradicting: 'Contradicting',
+      neutral: 'Neutral',
+    },
+  },
+  vi: {
+    date: 'Ngày',
+    theme: 'Chủ đề',
+    cards: 'Các Lá Bài',
+    reversed: 'Ngược',
+    clarifier: 'Lá làm rõ',
+    story: 'Câu Chuyện Của Bạn',
+    notes: 'Ghi Chú Phân Tích',
+    numerology: 'Thần Số Học',
+    astrology: 'Chiêm Tinh',
+    conversations: 'Đối Thoại Giữa Các Lá Bài',
+    closing: 'Thông Điệp Khép Lại',
+    guidance: 'Lời Khuyên',
+    link: 'Bài xem',
+    relationships: {
+      supporting: 'Hỗ Trợ',
+      challenging: 'Thách Thức',
+      complementary: 'Bổ Sung',
+      contradicting: 'Mâu Thuẫn',
+      neutral: 'Trung Lập',
+    },
+  },
+};
+
+/**
+ * Lay the reading out as blocks, shared by both formats
+ */
+function buildBlocks(
+  analysis: FullReadingAnalysis,
+  cards: DrawnCard[],
+  spread: TarotSpread,
+  options: ReadingTextOptions
+): Block[] {
+  const labels = LABELS[options.lang];
+  const cardLabel = (dc: { card: DrawnCard['card']; reversed: boolean }) =>
+    `${dc.card.name}${dc.reversed ? ` (${labels.reversed})` : ''}`;
+  const positionName = (dc: DrawnCard) => spread.positions[dc.position - 1]?.name ?? `#${dc.position}`;
+  const question = options.question?.trim();
+
+  const blocks: Block[] = [{ kind: 'heading', level: 1, text: spread.name }];
+  if (question) blocks.push({ kind: 'quote', text: question });
+  blocks.push({
+    kind: 'list',
+    items: [
+      `**${labels.date}:** ${(options.date ?? new Date()).toISOString().slice(0, 10)}`,
+      `**${labels.theme}:** ${analysis.theme.primaryTheme}`,
+    ],
+  });
+
+  const cardItems = cards.map(dc => {
+    const clarifier = dc.clarifier ? ` — ${labels.clarifier}: ${cardLabel(dc.clarifier)}` : '';
+    return `**${positionName(dc)}:** ${cardLabel(dc)}${clarifier}`;
+  });
+  blocks.push(
+    { kind: 'heading', level: 2, text: labels.cards },
+    { kind: 'list', ordered: true, items: cardItems },
+    { kind: 'paragraph', text: analysis.synthesis.opening, italic: true }
+  );
+
+  if (analysis.storyBeats.length > 0) {
+    blocks.push({ kind: 'heading', level: 2, text: labels.story });
+    for (const beat of analysis.storyBeats) {
+      blocks.push(
+        { kind: 'heading', level: 3, text: `${beat.position.name} — ${cardLabel(beat.drawnCard)}` },
+        { kind: 'paragraph', text: beat.narrative }
+      );
+      if (beat.connector) blocks.push({ kind: 'paragraph', text: beat.connector, italic: true });
+    }
+  }
+
+  if (analysis.synthesis.body.length > 0) {
+    blocks.push({ kind: 'heading', level: 2, text: labels.notes });
+    blocks.push(...analysis.synthesis.body.map(text => ({ kind: 'paragraph' as const, text })));
+  }
+
+  if (analysis.synthesis.numerology) {
+    blocks.push(
+      { kind: 'heading', level: 2, text: labels.numerology },
+      { kind: 'paragraph', text: analysis.synthesis.numerology }
+    );
+  }
+
+  if (analysis.synthesis.astrology) {
+    blocks.push(
+      { kind: 'heading', level: 2, text: labels.astrology },
+      { kind: 'paragraph', text: analysis.synthesis.astrology }
+    );
+  }
+
+  const conversations = analysis.interactions.filter(i => i.interpretation);
+  if (conversations.length > 0) {
+    blocks.push(
+      { kind: 'heading', level: 2, text: labels.conversations },
+      {
+        kind: 'list',
+        items: conversations.map(i =>
+          `**${labels.relationships[i.relationshipType]}** (${i.card1.name} ↔ ${i.card2.name}): ${i.interpretation}`
+        ),
+      }
+    );
+  }
+
+  blocks.push(
+    { kind: 'heading', level: 2, text: labels.closing },
+    { kind: 'paragraph', text: analysis.synthesis.conclusion },
+    { kind: 'heading', level: 2, text: labels.guidance },
+    { kind: 'paragraph', text: analysis.synthesis.advice }
+  );
+
+  if (options.url) {
+    blocks.push({ kind: 'rule' }, { kind: 'link', label: labels.link, url: options.url });
+  }
+  return blocks;
+}
+
+const BOLD = /\*\*([^*]+)\*\*/g;
+
+const stripBold = (text: string) => text.replace(BOLD, '$1');
+
+// Escape text so Markdown shows it literally
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<>~]/g, '\\$&')
+    .replace(/^([ \t]*)([#>+-])/gm, '$1\\$2')
+    .replace(/^([ \t]*\d+)([.)])/gm, '$1\\$2');
+}
+
+// Escape analyzer prose but keep its **bold** markers
+function escapeProse(text: string): string {
+  return text
+    .split(/\*\*([^*]+)\*\*/)
+    .map((part, i) => (i % 2 === 1 ? `**${escapeMarkdown(part)}**` : escapeMarkdown(part)))
+    .join('');
+}
+
+/**
+ * The reading as Markdown
+ */
+export function formatReadingMarkdown(
+  analysis: FullReadingAnalysis,
+  cards: DrawnCard[],
+  spread: TarotSpread,
+  options: ReadingTextOptions
+): string {
+  const rendered = buildBlocks(analysis, cards, spread, options).map(block => {
+    switch (block.kind) {
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${escapeMarkdown(block.text)}`;
+      case 'paragraph':
+        // Keep **bold** inside italics working by italicizing with underscores
+        return block.italic ? `_${escapeProse(block.text)}_` : escapeProse(block.text);
+      case 'quote':
+        return block.text.split('\n').map(line => `> ${escapeMarkdown(line)}`).join('\n');
+      case 'list':
+        return block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${escapeProse(item)}`).join('\n');
+      case 'rule':
+        return '---';
+      case 'link':
+        return `${block.label}: <${block.url}>`;
+    }
+  });
+  return rendered.join('\n\n') + '\n';
+}
+
+/**
+ * The reading as plain text, with underlined headings
+ */
+export function formatReadingPlainText(
+  analysis: FullReadingAnalysis,
+  cards: DrawnCard[],
+  spread: TarotSpread,
+  options: ReadingTextOptions
+): string {
+  const rendered = buildBlocks(analysis, cards, spread, options).map(block => {
+    switch (block.kind) {
+      case 'heading': {
+        if (block.level === 3) return block.text;
+        return `${block.text}\n${(block.level === 1 ? '=' : '-').repeat(block.text.length)}`;
+      }
+      case 'paragraph':
+        return stripBold(block.text);
+      case 'quote':
+        return `"${block.text}"`;
+      case 'list':
+        return block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${stripBold(item)}`).join('\n');
+      case 'rule':
+        return '---';
+      case 'link':
+        return `${block.label}: ${block.url}`;
+    }
+  });
+  return rendered.join('\n\n') + '\n';
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import spreadsData from '../data/spreads.json';
+import { loadSpreads } from './loadData';
+import { isChallengePosition, hasChallengePositions, readsReversed } from './reversalPolicy';
+
+const challengePositions = (spreadId: string) =>
+  spreadsData.find(s => s.id === spreadId)!.positions.map((_, index) => isChallengePosition(spreadId, index));
+
+describe('isChallengePosition', () => {
+  it('follows the challenge flag in the spread data', () => {
+    expect(challengePositions('5-card-deeper')).toEqual([false, true, false, false, false]);
+    expect(challengePositions('7-card-goal')).toEqual([false, false, false, true, true, false, false]);
+    expect(challengePositions('7-card-block')[0]).toBe(true);
+  });
+
+  it('does not depend on the language of the position names', () => {
+    expect(loadSpreads('vi').find(s => s.id === '5-card-deeper')!.positions[1].name).not.toMatch(/challenge/i);
+    expect(isChallengePosition('5-card-deeper', 1)).toBe(true);
+  });
+
+  it('is false for unknown spreads and positions', () => {
+    expect(isChallengePosition('no-such-spread', 0)).toBe(false);
+    expect(isChallengePosition('5-card-deeper', 5)).toBe(false);
+  });
+});
+
+describe('hasChallengePositions', () => {
+  it('tells spreads with a challenge position from those without', () => {
+    expect(hasChallengePositions('10-card-celtic')).toBe(true);
+    expect(hasChallengePositions('3-card-basic')).toBe(false);
+    expect(hasChallengePositions('no-such-spread')).toBe(false);
+  });
+});
+
+describe('readsReversed', () => {
+  it('only keeps reversals in challenge positions under the challenge policy', () => {
+    expect(readsReversed({ mode: 'challenge' }, true, '5-card-deeper', 1)).toBe(true);
+    expect(readsReversed({ mode: 'challenge' }, true, '5-card-deeper', 0)).toBe(false);
+    expect(readsReversed({ mode: 'probability', percent: 50 }, true, '5-card-deeper', 0)).toBe(true);
+    expect(readsReversed({ mode: 'challenge' }, false, '5-card-deeper', 1)).toBe(false);
+  });
+});
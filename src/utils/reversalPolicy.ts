@@ -0,0 +1,121 @@
+/**
+ * Reversal policies — decide whether a drawn card lands reversed
+ * Chosen per reading in the wizard and carried in the result URL as ?rev=
+ */
+
+import { randomBelow, cryptoSource, type RandomSource } from './rng';
+import spreadsData from '../data/spreads.json';
+import cardsData from '../data/cards.json';
+
+export type ReversalPolicy =
+  | { mode: 'upright' }                          // Never reverse
+  | { mode: 'probability'; percent: number }     // Reverse with the given chance (0-100)
+  | { mode: 'majors' }                           // Only Major Arcana can reverse (50/50)
+  | { mode: 'challenge' };                       // Only cards in challenge positions can reverse (50/50)
+
+export type ReversalMode = ReversalPolicy['mode'];
+
+/**
+ * The classic coin flip every reading used before policies existed
+ */
+export const DEFAULT_REVERSAL_POLICY: ReversalPolicy = { mode: 'probability', percent: 50 };
+
+// Challenge positions carry `"challenge": true` in data/spreads.json, which
+// every language shares
+const spreadPositions = spreadsData as Array<{ id: string; positions: Array<{ challenge?: boolean }> }>;
+
+/**
+ * Check whether a position (0-based) in a spread is a challenge position
+ */
+export function isChallengePosition(spreadId: string, positionIndex: number): boolean {
+  const spread = spreadPositions.find(s => s.id === spreadId);
+  return spread?.positions[positionIndex]?.challenge === true;
+}
+
+/**
+ * Whether the challenge policy can reverse anything in a spread
+ */
+export function hasChallengePositions(spreadId: string): boolean {
+  return spreadPositions.some(s => s.id === spreadId && s.positions.some(p => p.challenge === true));
+}
+
+/**
+ * Decide whether a card is reversed under the given policy
+ */
+export function shouldReverse(
+  policy: ReversalPolicy,
+  context: { isMajor: boolean; isChallengePosition: boolean },
+  source: RandomSource = cryptoSource
+): boolean {
+  switch (policy.mode) {
+    case 'upright':
+      return false;
+    case 'probability':
+      return randomBelow(100, source) < policy.percent;
+    case 'majors':
+      return context.isMajor && randomBelow(2, source) === 1;
+    case 'challenge':
+      return context.isChallengePosition && randomBelow(2, source) === 1;
+  }
+}
+
+/**
+ * Decide which way up each card lies in a shuffled deck, before anything is
+ * drawn, so the orientations can be committed to along with the order.
+ * Returns one flag per card in `deck` (true = lying reversed).
+ */
+export function orientDeck(
+  policy: ReversalPolicy,
+  deck: number[],
+  source: RandomSource = cryptoSource
+): boolean[] {
+  return deck.map(cardId => shouldReverse(
+    policy,
+    // Where the card will land isn't known yet; readsReversed applies that part
+    { isMajor: cardsData[cardId]?.arcana === 'major', isChallengePosition: true },
+    source
+  ));
+}
+
+/**
+ * Whether a card that lay `lyingReversed` in the deck reads reversed once it
+ * is drawn into a position (0-based). Only the challenge policy cares where
+ * the card lands: outside challenge positions it reads upright.
+ */
+export function readsReversed(
+  policy: ReversalPolicy,
+  lyingReversed: boolean,
+  spreadId: string,
+  positionIndex: number
+): boolean {
+  return lyingReversed && (policy.mode !== 'challenge' || isChallengePosition(spreadId, positionIndex));
+}
+
+/**
+ * Serialize a policy for the URL. Returns null for the default policy so
+ * ordinary readings keep their short URLs.
+ * Formats: "upright", "p30", "majors", "challenge"
+ */
+export function formatReversalPolicy(policy: ReversalPolicy): string | null {
+  switch (policy.mode) {
+    case 'probability':
+      return policy.percent === 50 ? null : `p${policy.percent}`;
+    default:
+      return policy.mode;
+  }
+}
+
+/**
+ * Parse a policy from a URL value, falling back to the default
+ */
+export function parseReversalPolicy(value: string | null | undefined): ReversalPolicy {
+  if (value === 'upright' || value === 'majors' || value === 'challenge') {
+    return { mode: value };
+  }
+  const match = value?.match(/^p(\d{1,3})$/);
+  if (match) {
+    const percent = parseInt(match[1], 10);
+    if (percent <= 100) return { mode: 'probability', percent };
+  }
+  return DEFAULT_REVERSAL_POLICY;
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSeededSource,
+  drawCards,
+  getRandomInt,
+  isReversed,
+  randomBelow,
+  shuffleDeck,
+  formatSeed,
+  parseSeed,
+  type RandomSource,
+} from './rng';
+
+const DECK_SIZE = 78;
+const DECK = Array.from({ length: DECK_SIZE }, (_, i) => i);
+
+/** z-score for a one-sided 0.1% significance level */
+const Z_999 = 3.09;
+
+/**
+ * Chi-square critical value at the 0.1% level (Wilson-Hilferty approximation)
+ */
+function chiSquareCritical(degreesOfFreedom: number): number {
+  const k = degreesOfFreedom;
+  return k * (1 - 2 / (9 * k) + Z_999 * Math.sqrt(2 / (9 * k))) ** 3;
+}
+
+function chiSquare(observed: number[], expected: number): number {
+  return observed.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+}
+
+/** A source that plays back fixed values, for checking rejection */
+function scriptedSource(values: number[]): RandomSource {
+  let i = 0;
+  return { nextUint32: () => values[i++] };
+}
+
+describe('createSeededSource', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededSource(12345);
+    const b = createSeededSource(12345);
+    const first = Array.from({ length: 20 }, () => a.nextUint32());
+    expect(Array.from({ length: 20 }, () => b.nextUint32())).toEqual(first);
+    expect(first.every(v => Number.isInteger(v) && v >= 0 && v <= 0xffffffff)).toBe(true);
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(createSeededSource(1).nextUint32()).not.toBe(createSeededSource(2).nextUint32());
+  });
+});
+
+describe('formatSeed / parseSeed', () => {
+  it('round-trips 32-bit seeds', () => {
+    for (const seed of [0, 1, 35, 36, 123456789, 0xffffffff]) {
+      expect(parseSeed(formatSeed(seed))).toBe(seed);
+    }
+  });
+
+  it('rejects missing, malformed and out-of-range values', () => {
+    expect(parseSeed(null)).toBeNull();
+    expect(parseSeed('')).toBeNull();
+    expect(parseSeed('abc-1')).toBeNull();
+    expect(parseSeed('zzzzzzz')).toBeNull();
+  });
+});
+
+describe('randomBelow', () => {
+  it('redraws values from the incomplete final block instead of wrapping them', () => {
+    // limit for bound 3 is 4294967295, so 0xffffffff must be rejected
+    expect(randomBelow(3, scriptedSource([0xffffffff, 5]))).toBe(2);
+    expect(randomBelow(3, scriptedSource([0xfffffffe]))).toBe(0xfffffffe % 3);
+  });
+
+  it('throws for bounds outside [1, 2^32]', () => {
+    expect(() => randomBelow(0)).toThrow(RangeError);
+    expect(() => randomBelow(1.5)).toThrow(RangeError);
+    expect(() => randomBelow(0x100000001)).toThrow(RangeError);
+  });
+
+  it('is uniform over small bounds', () => {
+    const source = createSeededSource(2024);
+    for (const bound of [2, 3, 7, 78, 100]) {
+      const counts = new Array(bound).fill(0);
+      const samples = bound * 2000;
+      for (let i = 0; i < samples; i++) counts[randomBelow(bound, source)]++;
+      expect(chiSquare(counts, samples / bound)).toBeLessThan(chiSquareCritical(bound - 1));
+    }
+  });
+});
+
+describe('getRandomInt', () => {
+  it('stays within [min, max)', () => {
+    const source = createSeededSource(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = getRandomInt(-3, 4, source);
+      expect(value).toBeGreaterThanOrEqual(-3);
+      expect(value).toBeLessThan(4);
+    }
+  });
+});
+
+describe('isReversed', () => {
+  it('comes up reversed half the time', () => {
+    const source = createSeededSource(99);
+    const samples = 20000;
+    let reversed = 0;
+    for (let i = 0; i < samples; i++) if (isReversed(source)) reversed++;
+    expect(chiSquare([reversed, samples - reversed], samples / 2)).toBeLessThan(chiSquareCritical(1));
+  });
+});
+
+describe('shuffleDeck', () => {
+  it('returns a permutation without touching the input', () => {
+    const input = [...DECK];
+    const shuffled = shuffleDeck(input, createSeededSource(1));
+    expect(input).toEqual(DECK);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(DECK);
+  });
+
+  it('is reproducible from a seed', () => {
+    expect(shuffleDeck(DECK, createSeededSource(42))).toEqual(shuffleDeck(DECK, createSeededSource(42)));
+  });
+
+  // counts[position][card]: how often each card landed in each position
+  const SHUFFLES = DECK_SIZE * 100;
+  const counts = (() => {
+    const source = createSeededSource(0x7a207);
+    const table = DECK.map(() => new Array(DECK_SIZE).fill(0));
+    for (let n = 0; n < SHUFFLES; n++) {
+      shuffleDeck(DECK, source).forEach((cardId, position) => table[position][cardId]++);
+    }
+    return table;
+  })();
+  const expected = SHUFFLES / DECK_SIZE;
+
+  it('puts every card in every position equally often (all 78 × 78 cells)', () => {
+    const statistic = counts.reduce((sum, row) => sum + chiSquare(row, expected), 0);
+    expect(statistic).toBeLessThan(chiSquareCritical(DECK_SIZE * (DECK_SIZE - 1)));
+  });
+
+  it('gives each position a uniform card', () => {
+    const critical = chiSquareCritical(DECK_SIZE - 1);
+    // 78 tests at the 0.1% level: one chance crossing is plausible, two are not
+    const failures = counts.filter(row => chiSquare(row, expected) >= critical);
+    expect(failures.length).toBeLessThanOrEqual(1);
+  });
+
+  it('spreads each card uniformly over the positions', () => {
+    const critical = chiSquareCritical(DECK_SIZE - 1);
+    const failures = DECK.filter(cardId => chiSquare(counts.map(row => row[cardId]), expected) >= critical);
+    expect(failures.length).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('drawCards', () => {
+  it('draws distinct cards from the deck', () => {
+    const drawn = drawCards(DECK, 10, createSeededSource(3));
+    expect(drawn).toHaveLength(10);
+    expect(new Set(drawn).size).toBe(10);
+  });
+});
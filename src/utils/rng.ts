@@ -1,18 +1,94 @@
 /**
  * Cryptographically secure random number generation
  * Uses crypto.getRandomValues() instead of Math.random()
+ *
+ * Every helper accepts an optional RandomSource so a reading can be replayed
+ * from a seed (QA, deterministic tests). Without one, crypto is used.
  */
 
+/**
+ * A pluggable source of uniformly distributed 32-bit unsigned integers
+ */
+export interface RandomSource {
+  nextUint32(): number;
+}
+
+/**
+ * Default source backed by crypto.getRandomValues()
+ */
+export const cryptoSource: RandomSource = {
+  nextUint32(): number {
+    const value = new Uint32Array(1);
+    crypto.getRandomValues(value);
+    return value[0];
+  },
+};
+
+/**
+ * Create a deterministic source from a 32-bit seed (mulberry32).
+ * The same seed always yields the same sequence of values.
+ */
+export function createSeededSource(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return {
+    nextUint32(): number {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return (t ^ (t >>> 14)) >>> 0;
+    },
+  };
+}
+
+/**
+ * Generate a fresh random seed for a seeded source
+ */
+export function generateSeed(): number {
+  return cryptoSource.nextUint32();
+}
+
+/**
+ * Format a seed for use in URLs (base36, e.g. "1z141z3")
+ */
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(36);
+}
+
+/**
+ * Parse a seed from a URL value. Returns null if it is missing or invalid.
+ */
+export function parseSeed(value: string | null | undefined): number | null {
+  if (!value || !/^[0-9a-z]{1,7}$/i.test(value)) return null;
+  const seed = parseInt(value, 36);
+  return seed <= 0xffffffff ? seed : null;
+}
+
+/**
+ * Get a uniformly distributed integer in [0, bound).
+ * Uses rejection sampling so there is no modulo bias: values from the
+ * incomplete final block of the 32-bit range are discarded and redrawn.
+ */
+export function randomBelow(bound: number, source: RandomSource = cryptoSource): number {
+  if (!Number.isInteger(bound) || bound < 1 || bound > 0x100000000) {
+    throw new RangeError(`randomBelow: bound must be an integer in [1, 2^32], got ${bound}`);
+  }
+  const limit = Math.floor(0x100000000 / bound) * bound;
+  let value: number;
+  do {
+    value = source.nextUint32();
+  } while (value >= limit);
+  return value % bound;
+}
+
 /**
  * Shuffle an array using Fisher-Yates algorithm with crypto random
  */
-export function shuffleDeck<T>(array: T[]): T[] {
+export function shuffleDeck<T>(array: T[], source: RandomSource = cryptoSource): T[] {
   const shuffled = [...array];
-  const randomValues = new Uint32Array(shuffled.length);
-  crypto.getRandomValues(randomValues);
 
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = randomValues[i] % (i + 1);
+    const j = randomBelow(i + 1, source);
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
 
@@ -22,26 +98,21 @@ export function shuffleDeck<T>(array: T[]): T[] {
 /**
  * Randomly determine if a card should be reversed (50/50 chance)
  */
-export function isReversed(): boolean {
-  const randomValue = new Uint8Array(1);
-  crypto.getRandomValues(randomValue);
-  return randomValue[0] > 127;
+export function isReversed(source: RandomSource = cryptoSource): boolean {
+  return randomBelow(2, source) === 1;
 }
 
 /**
  * Get a random integer between min (inclusive) and max (exclusive)
  */
-export function getRandomInt(min: number, max: number): number {
-  const range = max - min;
-  const randomValue = new Uint32Array(1);
-  crypto.getRandomValues(randomValue);
-  return min + (randomValue[0] % range);
+export function getRandomInt(min: number, max: number, source: RandomSource = cryptoSource): number {
+  return min + randomBelow(max - min, source);
 }
 
 /**
  * Select N random cards from the deck
  */
-export function drawCards<T>(deck: T[], count: number): T[] {
-  const shuffled = shuffleDeck(deck);
+export function drawCards<T>(deck: T[], count: number, source: RandomSource = cryptoSource): T[] {
+  const shuffled = shuffleDeck(deck, source);
   return shuffled.slice(0, count);
 }
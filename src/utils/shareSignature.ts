@@ -0,0 +1,119 @@
+/**
+ * Signed share links — an HMAC over the reading token, so edited links lose
+ * their "verified draw" badge. Only import this from SSR pages and API routes
+ * (it uses node:crypto and the server secret).
+ *
+ *   /result/{token}[/{clarifiers}]?sig={signature}
+ *
+ * Only readings dealt from a seed the server chose are signed. The seed comes
+ * with a deal ticket, an HMAC over it and the deal options, and the reading is
+ * signed once its draw proof checks out against that seed (see deal.ts and
+ * /api/deal/sign).
+ * The secret comes from SHARE_LINK_SECRET. Without it nothing is signed and
+ * every link renders unverified. Clarifiers are drawn in the browser after
+ * the reading and aren't covered: adding one drops the signature, and links
+ * with a clarifier segment never show the badge.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { encodeReading, type EncodedReading } from './readingCodec';
+import { formatSeed } from './rng';
+import { formatDeckPool, type DeckPool } from './deckPool';
+import { formatReversalPolicy, type ReversalPolicy } from './reversalPolicy';
+import { formatShuffleRitual, type ShuffleRitual } from './deckRitual';
+
+export const SIGNATURE_PARAM = 'sig';
+
+const SIGNATURE_BYTES = 16; // Truncated HMAC-SHA256, 22 base64url characters
+const MIN_SECRET_LENGTH = 16;
+const SIGNATURE_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+const TICKET_PATTERN = /^([0-9a-z]{1,11})\.([A-Za-z0-9_-]{22})$/;
+
+/** How long a deal ticket can be used, from the reading it was issued for */
+export const DEAL_TICKET_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * What a deal ticket vouches for: the server chose this seed for these options
+ */
+export interface TicketedSeed {
+  seed: number;
+  spreadId: string;
+  pool: DeckPool;
+  policy: ReversalPolicy;
+  ritual: ShuffleRitual;
+}
+
+/**
+ * The configured signing secret, or null if signing is off
+ */
+export function getShareSecret(): string | null {
+  const secret = import.meta.env.SHARE_LINK_SECRET;
+  return typeof secret === 'string' && secret.length >= MIN_SECRET_LENGTH ? secret : null;
+}
+
+function computeSignature(reading: EncodedReading, secret: string): Buffer {
+  // Sign the canonical token so old-form links of the same reading verify too
+  return createHmac('sha256', secret)
+    .update(`reading:v1:${encodeReading(reading)}`)
+    .digest()
+    .subarray(0, SIGNATURE_BYTES);
+}
+
+/**
+ * Sign a reading
+ */
+export function signReading(reading: EncodedReading, secret: string): string {
+  return computeSignature(reading, secret).toString('base64url');
+}
+
+/**
+ * Check a link's signature. False for missing, malformed or wrong signatures.
+ */
+export function verifyReadingSignature(
+  reading: EncodedReading,
+  signature: string | null | undefined,
+  secret: string
+): boolean {
+  if (!signature || !SIGNATURE_PATTERN.test(signature)) return false;
+  try {
+    return timingSafeEqual(computeSignature(reading, secret), Buffer.from(signature, 'base64url'));
+  } catch {
+    return false; // Reading the codec can't encode
+  }
+}
+
+function computeTicket(dealt: TicketedSeed, issuedAt: string, secret: string): Buffer {
+  const options = [formatDeckPool(dealt.pool), formatReversalPolicy(dealt.policy), formatShuffleRitual(dealt.ritual)];
+  return createHmac('sha256', secret)
+    .update(`deal:v1:${formatSeed(dealt.seed)}:${dealt.spreadId}:${options.map(o => o ?? '').join(':')}:${issuedAt}`)
+    .digest()
+    .subarray(0, SIGNATURE_BYTES);
+}
+
+/**
+ * Issue a ticket for a seed. Reshuffles keep the first ticket's issue time,
+ * so one reading's tickets all expire together.
+ */
+export function issueDealTicket(dealt: TicketedSeed, secret: string, issuedAt: number = Date.now()): string {
+  const time = issuedAt.toString(36);
+  return `${time}.${computeTicket(dealt, time, secret).toString('base64url')}`;
+}
+
+/**
+ * When a ticket for this seed was issued, or null if it is malformed, wrong
+ * or expired
+ */
+export function readDealTicket(
+  dealt: TicketedSeed,
+  ticket: unknown,
+  secret: string,
+  now: number = Date.now()
+): number | null {
+  const match = typeof ticket === 'string' ? TICKET_PATTERN.exec(ticket) : null;
+  if (!match) return null;
+  const issuedAt = parseInt(match[1], 36);
+  if (!(issuedAt <= now && now - issuedAt < DEAL_TICKET_TTL_MS)) return null;
+  return timingSafeEqual(computeTicket(dealt, match[1], secret), Buffer.from(match[2], 'base64url'))
+    ? issuedAt
+    : null;
+}
@@ -1,7 +1,13 @@
 /**
- * LocalStorage utilities for reading history and limits
+ * Reading records and the client side of the deal API and the reading
+ * limit. Readings themselves are kept in the IndexedDB journal
+ * (see journal.ts)
  */
 
+import type { SupportedLanguage } from '../types/i18n';
+import type { QuotaStatus } from './readingQuota';
+import type { DealSeed } from './deal';
+
 export interface Reading {
   id: string;
   timestamp: number;
@@ -10,114 +16,95 @@ export interface Reading {
     cardId: number;
     reversed: boolean;
   }>;
+  /** The question asked, if any */
+  question?: string;
+  /** Language the reading was done in */
+  lang?: SupportedLanguage;
+  /** Result page path and query, so the reading can be reopened as it was */
+  url?: string;
+  /** Free-text reflection written after the reading */
+  notes?: string;
+  /** Lowercase labels for filtering, e.g. ["work", "new moon"] */
+  tags?: string[];
+  /** How the reader felt, 1 (low) to 5 (high) */
+  mood?: number;
+  /** "How did this turn out?" check-in */
+  followUp?: ReadingFollowUp;
 }
 
-export interface ReadingLimitData {
-  readings: number[];
-  limit: number;
+export interface ReadingFollowUp {
+  /** When to ask how the reading turned out */
+  dueAt: number;
+  /** How accurate the reading felt in hindsight, 1-5 */
+  accuracy?: number;
+  /** When the follow-up was answered */
+  answeredAt?: number;
+  note?: string;
 }
 
-const READING_LIMIT = 5; // Allow 5 readings per 24 hours
-const RESET_HOURS = 24;
-
 /**
- * Check if user can do a reading based on limit
+ * Get the reading quota from the server. Throws if it can't be reached.
  */
-export function canDoReading(): { allowed: boolean; hoursLeft?: number } {
-  if (typeof localStorage === 'undefined') {
-    return { allowed: true };
-  }
-
-  try {
-    const data: ReadingLimitData = JSON.parse(
-      localStorage.getItem('readingLimit') || '{"readings":[]}'
-    );
-    const now = Date.now();
-    const cutoff = now - RESET_HOURS * 60 * 60 * 1000;
-
-    // Remove old readings
-    data.readings = data.readings.filter((ts) => ts > cutoff);
+export async function getRemainingReadings(): Promise<QuotaStatus> {
+  const response = await fetch('/api/quota', { credentials: 'same-origin' });
+  if (!response.ok) throw new Error(`Quota request failed: ${response.status}`);
+  return response.json();
+}
 
-    if (data.readings.length >= READING_LIMIT) {
-      const oldestReading = Math.min(...data.readings);
-      const resetTime = oldestReading + RESET_HOURS * 60 * 60 * 1000;
-      const hoursLeft = Math.ceil((resetTime - now) / (60 * 60 * 1000));
-      return { allowed: false, hoursLeft };
-    }
+async function postDeal(path: string, body: object): Promise<Response> {
+  return fetch(path, {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
 
-    return { allowed: true };
-  } catch (error) {
-    console.error('Error checking reading limit:', error);
-    return { allowed: true };
+async function readDealResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: undefined }));
+    throw new Error(`Deal request failed: ${response.status}${error ? ` ${error}` : ''}`);
   }
+  return response.json();
 }
 
 /**
- * Record a new reading
+ * The options a deal is shuffled with, in their URL formats
  */
-export function recordReading(): void {
-  if (typeof localStorage === 'undefined') return;
-
-  try {
-    const data: ReadingLimitData = JSON.parse(
-      localStorage.getItem('readingLimit') || '{"readings":[]}'
-    );
-    data.readings.push(Date.now());
-    localStorage.setItem('readingLimit', JSON.stringify(data));
-  } catch (error) {
-    console.error('Error recording reading:', error);
-  }
+export interface DealRequest {
+  spreadId: string;
+  pool?: string | null;
+  rev?: string | null;
+  ritual?: string | null;
 }
 
 /**
- * Save a reading to history
+ * Get the seed for a new reading (see deal.ts), using one reading from the
+ * quota. `dealt` is null when no readings are left. Throws on any other
+ * failure, so the reading limit is never skipped because the server couldn't
+ * be reached.
  */
-export function saveReading(reading: Reading): void {
-  if (typeof localStorage === 'undefined') return;
-
-  try {
-    const history: Reading[] = JSON.parse(
-      localStorage.getItem('readingHistory') || '[]'
-    );
-    history.unshift(reading); // Add to beginning
-    // Keep only last 10 readings
-    const trimmed = history.slice(0, 10);
-    localStorage.setItem('readingHistory', JSON.stringify(trimmed));
-  } catch (error) {
-    console.error('Error saving reading:', error);
-  }
+export async function startReading(
+  options: DealRequest & { seed?: string; lang?: SupportedLanguage }
+): Promise<{ quota: QuotaStatus; dealt: DealSeed | null }> {
+  const response = await postDeal('/api/deal', options);
+  if (response.status === 429) return { quota: (await response.json()).quota, dealt: null };
+  const { quota, ...dealt } = await readDealResponse<DealSeed & { quota: QuotaStatus }>(response);
+  return { quota, dealt };
 }
 
 /**
- * Get reading history
+ * Swap a ticketed seed for a fresh one to shuffle again
  */
-export function getReadingHistory(): Reading[] {
-  if (typeof localStorage === 'undefined') return [];
-
-  try {
-    return JSON.parse(localStorage.getItem('readingHistory') || '[]');
-  } catch (error) {
-    console.error('Error getting reading history:', error);
-    return [];
-  }
+export async function reshuffleSeed(options: DealRequest & Required<DealSeed>): Promise<Required<DealSeed>> {
+  return readDealResponse(await postDeal('/api/deal/shuffle', options));
 }
 
 /**
- * Get remaining readings count
+ * Get the signature for a finished reading's link (path and query) dealt
+ * from a ticketed seed
  */
-export function getRemainingReadings(): number {
-  if (typeof localStorage === 'undefined') return READING_LIMIT;
-
-  try {
-    const data: ReadingLimitData = JSON.parse(
-      localStorage.getItem('readingLimit') || '{"readings":[]}'
-    );
-    const now = Date.now();
-    const cutoff = now - RESET_HOURS * 60 * 60 * 1000;
-    const recentReadings = data.readings.filter((ts) => ts > cutoff);
-    return Math.max(0, READING_LIMIT - recentReadings.length);
-  } catch (error) {
-    console.error('Error getting remaining readings:', error);
-    return READING_LIMIT;
-  }
+export async function signDealtReading(path: string, ticket: string): Promise<string> {
+  const { sig } = await readDealResponse<{ sig: string }>(await postDeal('/api/deal/sign', { path, ticket }));
+  return sig;
 }
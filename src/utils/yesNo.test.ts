@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawnCard, TarotCard } from '../types/tarot';
+import { loadCards } from './loadData';
+import { isYesNoQuestion, scoreYesNo } from './yesNo';
+
+const cards: TarotCard[] = loadCards('en');
+
+// One upright card of each answer and weight
+const SAMPLES = {
+  yesMajor: cards[19], // The Sun
+  yesMinor: cards[22], // Ace of Wands
+  noMajor: cards[13], // Death
+  noMinor: cards[26], // Five of Wands
+  maybeMajor: cards[2], // The High Priestess
+  maybeMinor: cards[28], // Seven of Wands
+};
+
+const draw = (...drawn: TarotCard[]): DrawnCard[] =>
+  drawn.map((card, index) => ({ card, position: index + 1, reversed: false }));
+
+describe('isYesNoQuestion', () => {
+  it('recognises English and Vietnamese yes/no questions', () => {
+    expect(isYesNoQuestion('Will I get the job?')).toBe(true);
+    expect(isYesNoQuestion('Anh ấy có yêu tôi không?')).toBe(true);
+    expect(isYesNoQuestion('What should I focus on?')).toBe(false);
+  });
+
+  it('treats "A or B" as a choice', () => {
+    expect(isYesNoQuestion('Should I stay or leave?')).toBe(false);
+    expect(isYesNoQuestion('Will it be him or her?')).toBe(false);
+    expect(isYesNoQuestion('Tôi nên ở lại hay đi không?')).toBe(false);
+  });
+
+  it('still answers a closing "or not" or "hay không"', () => {
+    expect(isYesNoQuestion('Should I take the job or not?')).toBe(true);
+    expect(isYesNoQuestion('Will he call me, or not')).toBe(true);
+    expect(isYesNoQuestion('Anh ấy có yêu tôi hay không?')).toBe(true);
+    expect(isYesNoQuestion('Tôi có nên đổi việc hay không')).toBe(true);
+    expect(isYesNoQuestion('Should I stay or leave or not?')).toBe(false);
+  });
+});
+
+describe('scoreYesNo', () => {
+  it('answers from the weighted votes', () => {
+    expect(scoreYesNo(draw(SAMPLES.yesMajor)).answer).toBe('yes');
+    expect(scoreYesNo(draw(SAMPLES.noMinor, SAMPLES.noMajor, SAMPLES.yesMinor)).answer).toBe('no');
+    expect(scoreYesNo(draw(SAMPLES.yesMajor, SAMPLES.noMajor, SAMPLES.maybeMinor)).answer).toBe('maybe');
+  });
+
+  it('is least confident at dead centre and more so the further the score is from it', () => {
+    const centre = scoreYesNo(draw(SAMPLES.yesMajor, SAMPLES.noMajor, SAMPLES.maybeMinor));
+    expect(centre.score).toBe(0);
+
+    const samples = Object.values(SAMPLES);
+    const results = samples.flatMap(a => samples.flatMap(b => samples.map(c => scoreYesNo(draw(a, b, c)))));
+    results.sort((x, y) => Math.abs(x.score) - Math.abs(y.score));
+    expect(results[0].confidence).toBe(centre.confidence);
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i].confidence).toBeGreaterThanOrEqual(results[i - 1].confidence);
+    }
+    expect(results[results.length - 1].confidence).toBe(0.95);
+  });
+
+  it('is less sure of a single card than of three', () => {
+    expect(scoreYesNo(draw(SAMPLES.yesMajor)).confidence).toBe(0.7);
+    expect(scoreYesNo(draw(SAMPLES.maybeMajor)).confidence).toBeLessThan(scoreYesNo(draw(SAMPLES.yesMinor)).confidence);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Yes/no oracle — answers a binary question from a one- or three-card draw
+ * Offered in the wizard when the question looks binary and carried in the
+ * result URL as ?mode=yesno.
+ */
+
+import type { DrawnCard, TarotCard, YesNo } from '../types/tarot';
+import type { YesNoAnswer, YesNoVote } from '../types/reading';
+
+export type ReadingMode = 'reading' | 'yesno';
+
+export const DEFAULT_READING_MODE: ReadingMode = 'reading';
+
+/** Draw sizes the scorer can answer from */
+const YES_NO_CARD_COUNTS = [1, 3];
+
+// English yes/no questions open with an auxiliary verb; Vietnamese ones close
+// with a question particle. Either way, "A or B" is a choice, not a yes/no,
+// though a closing "or not" / "hay không" still asks for a yes or a no.
+const EN_OPENERS = /^(will|would|should|shall|can|could|is|are|am|was|were|do|does|did|has|have|had|may|might|must)\b/;
+const VI_ENDINGS = /(không|chưa|chăng|phải không|đúng không|được không)\s*[?.!]*$/;
+const CHOICE_WORDS = /\b(or|hay|hoặc)\b/;
+const OR_NOT_ENDINGS = /\s*\b(or not|hay không)\s*[?.!]*$/;
+
+const POLARITY_VALUES: Record<YesNo, number> = { yes: 1, maybe: 0, no: -1 };
+
+/** A reversal turns a yes into a no and softens a no into a maybe */
+const REVERSED_POLARITY: Record<YesNo, YesNo> = { yes: 'no', maybe: 'maybe', no: 'maybe' };
+
+/** Major Arcana speak louder than Minors */
+const MAJOR_WEIGHT = 1.5;
+
+/** Scores closer to 0 than this are a maybe */
+const MAYBE_BAND = 0.25;
+
+/** Highest confidence a draw of this size can give */
+const SINGLE_CARD_CERTAINTY = 0.7;
+const THREE_CARD_CERTAINTY = 0.95;
+
+/**
+ * Whether the scorer can answer from a spread with this many cards
+ */
+export function supportsYesNo(cardCount: number): boolean {
+  return YES_NO_CARD_COUNTS.includes(cardCount);
+}
+
+/**
+ * Whether a question can be answered with yes or no
+ */
+export function isYesNoQuestion(question: string): boolean {
+  const text = question.trim().toLowerCase().replace(/^[^\p{L}]+/u, '');
+  if (!text || CHOICE_WORDS.test(text.replace(OR_NOT_ENDINGS, ''))) return false;
+  return EN_OPENERS.test(text) || VI_ENDINGS.test(text);
+}
+
+/**
+ * A card's answer, taking its reversal into account
+ */
+export function getCardPolarity(card: TarotCard, reversed: boolean): YesNo {
+  return reversed ? REVERSED_POLARITY[card.yesNo] : card.yesNo;
+}
+
+/**
+ * Combine the drawn cards into one answer with a confidence
+ */
+export function scoreYesNo(cards: DrawnCard[]): YesNoAnswer {
+  const votes: YesNoVote[] = cards.map(dc => ({
+    drawnCard: dc,
+    polarity: getCardPolarity(dc.card, dc.reversed),
+    weight: dc.card.arcana === 'major' ? MAJOR_WEIGHT : 1,
+  }));
+  const totalWeight = votes.reduce((sum, vote) => sum + vote.weight, 0);
+  const score = votes.reduce((sum, vote) => sum + POLARITY_VALUES[vote.polarity] * vote.weight, 0) / totalWeight;
+
+  const answer: YesNo = score >= MAYBE_BAND ? 'yes' : score <= -MAYBE_BAND ? 'no' : 'maybe';
+  // Confidence grows with the distance from dead centre: a maybe gets a quarter
+  // of the certainty at 0 and half at the band edge, a yes or no from half up
+  // to all of it at all-yes or all-no
+  const distance = Math.abs(score);
+  const share = answer === 'maybe'
+    ? 0.25 + 0.25 * distance / MAYBE_BAND
+    : 0.5 + 0.5 * (distance - MAYBE_BAND) / (1 - MAYBE_BAND);
+  const certainty = cards.length >= 3 ? THREE_CARD_CERTAINTY : SINGLE_CARD_CERTAINTY;
+  const confidence = Math.round(certainty * share * 100) / 100;
+
+  const opposite = answer === 'yes' ? 'no' : answer === 'no' ? 'yes' : null;
+  const heaviestFirst = [...votes].sort((a, b) => b.weight - a.weight);
+  return {
+    answer,
+    score: Math.round(score * 100) / 100,
+    confidence,
+    votes,
+    drivers: heaviestFirst.filter(vote => vote.polarity === answer).map(vote => vote.drawnCard),
+    opposing: heaviestFirst.filter(vote => vote.polarity === opposite).map(vote => vote.drawnCard),
+  };
+}
+
+/**
+ * Serialize a mode for the URL. Returns null for an ordinary reading.
+ */
+export function formatReadingMode(mode: ReadingMode): string | null {
+  return mode === DEFAULT_READING_MODE ? null : mode;
+}
+
+/**
+ * Parse a mode from a URL value, falling back to an ordinary reading
+ */
+export function parseReadingMode(value: string | null | undefined): ReadingMode {
+  return value === 'yesno' ? 'yesno' : DEFAULT_READING_MODE;
+}